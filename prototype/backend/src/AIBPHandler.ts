@@ -0,0 +1,258 @@
+import { AIBPCodec, AIBPMessage, AIBPOpCode, GraphNode } from '@aiws/shared';
+import { GraphMemDB, LiveQuery } from '@aiws/database';
+import { AgentOrchestrator } from './AgentOrchestrator';
+import { SessionManager } from './SessionManager';
+
+interface AIBPConnection {
+  session: number;
+  send: (frame: Buffer) => void;
+  /** Live queries opened with WS_SUBSCRIBE, by id */
+  liveQueries: Map<number, LiveQuery>;
+}
+
+/**
+ * AIBP Handler - Serves AI Binary Protocol frames received over WebSocket
+ *
+ * Payloads are UTF-8 AIQ text for EXECUTE_QUERY and JSON for everything
+ * else. Successful responses use the request opcode with the response bit
+ * set; failures are answered with ERROR and a { message } payload.
+ *
+ * Clients first send AUTHENTICATE with their token as payload (and a
+ * previous session ID in the header to resume). Every other frame must
+ * carry the session ID issued to the same connection: an ID alone does
+ * not authenticate, so a resumed session needs the token again.
+ *
+ * WS_SUBSCRIBE with a { query } payload opens a live query; with a topic
+ * (e.g. "changes") it subscribes the session to that broadcast. Live query
+ * diffs and topic messages are pushed as WS_BROADCAST responses, with the
+ * live query id (0 for topics) as request ID.
+ */
+export class AIBPHandler {
+  private db: GraphMemDB;
+  private orchestrator: AgentOrchestrator;
+  private sessions: SessionManager;
+  private codec: AIBPCodec;
+  /** Authenticated connections, until release() */
+  private connections: Map<object, AIBPConnection> = new Map();
+
+  constructor(db: GraphMemDB, orchestrator: AgentOrchestrator, sessions: SessionManager) {
+    this.db = db;
+    this.orchestrator = orchestrator;
+    this.sessions = sessions;
+    this.codec = new AIBPCodec();
+  }
+
+  /**
+   * Decode a request frame received on a connection, dispatch it and
+   * encode the response frame; send pushes frames to the connection
+   */
+  async handleFrame(frame: Buffer, connection: object, send: (frame: Buffer) => void): Promise<Buffer> {
+    let message: AIBPMessage;
+    try {
+      message = this.codec.decode(frame);
+    } catch (error: any) {
+      return this.errorFrame(0, 0, error.message);
+    }
+
+    try {
+      if (message.op === AIBPOpCode.AUTHENTICATE) {
+        const info = this.sessions.authenticate(this.codec.readPayload(message), message.session);
+        const state = this.connections.get(connection);
+        this.sessions.attach(info.sessionId);
+        if (state) {
+          this.sessions.detach(state.session);
+          state.session = info.sessionId;
+        } else {
+          this.connections.set(connection, { session: info.sessionId, send, liveQueries: new Map() });
+        }
+        return this.codec.encodeJSON({
+          op: this.codec.responseOp(message.op),
+          session: info.sessionId,
+          requestId: message.requestId,
+          data: info
+        });
+      }
+
+      const state = this.connections.get(connection);
+      if (state?.session !== message.session) {
+        throw new Error('Not authenticated: send AUTHENTICATE on this connection first');
+      }
+      this.sessions.validate(message.session);
+      const data = await this.dispatch(message, state);
+      return this.codec.encodeJSON({
+        op: this.codec.responseOp(message.op),
+        session: message.session,
+        requestId: message.requestId,
+        data
+      });
+    } catch (error: any) {
+      return this.errorFrame(message.session, message.requestId, error.message);
+    }
+  }
+
+  /**
+   * Push a broadcast to the connections whose session subscribes to the topic
+   */
+  broadcast(data: any, topic: string): void {
+    for (const connection of this.connections.values()) {
+      if (this.sessions.get(connection.session)?.state.subscriptions.includes(topic)) {
+        this.push(connection, 0, data);
+      }
+    }
+  }
+
+  /**
+   * Forget a closed connection and end its live queries
+   */
+  release(connection: object): void {
+    const state = this.connections.get(connection);
+    if (!state) return;
+    state.liveQueries.forEach(liveQuery => liveQuery.unsubscribe());
+    this.sessions.detach(state.session);
+    this.connections.delete(connection);
+  }
+
+  private async dispatch(message: AIBPMessage, connection: AIBPConnection): Promise<any> {
+    const payload = this.codec.readPayload(message);
+
+    switch (message.op) {
+      case AIBPOpCode.EXECUTE_QUERY:
+        if (typeof payload !== 'string' || !payload.trim()) {
+          throw new Error('EXECUTE_QUERY requires an AIQ query payload');
+        }
+        return this.orchestrator.getDatabaseAgent().executeQuery(payload);
+
+      case AIBPOpCode.GRAPH_TRAVERSE:
+        if (payload?.start === undefined) {
+          throw new Error('GRAPH_TRAVERSE requires start node');
+        }
+        return this.db.traverse(
+          payload.start,
+          payload.relationships || [],
+          payload.maxDepth,
+          payload.direction
+        );
+
+      case AIBPOpCode.GET_USER:
+        return this.getTypedNode(payload, 'user');
+
+      case AIBPOpCode.GET_ORDER:
+        return this.getTypedNode(payload, 'order');
+
+      case AIBPOpCode.LIST_USERS:
+        return this.db.getNodesByType('user');
+
+      case AIBPOpCode.CREATE_USER:
+        return this.createNode(payload, 'user');
+
+      case AIBPOpCode.UPDATE_USER:
+        return this.updateNode(payload, 'user');
+
+      case AIBPOpCode.DELETE_USER:
+        return { deleted: this.db.removeNode(this.getTypedNode(payload, 'user').id) };
+
+      case AIBPOpCode.CREATE_ORDER:
+        return this.createNode(payload, 'order');
+
+      case AIBPOpCode.UPDATE_ORDER:
+        return this.updateNode(payload, 'order');
+
+      case AIBPOpCode.WS_SUBSCRIBE:
+        return this.subscribe(payload, connection);
+
+      case AIBPOpCode.WS_UNSUBSCRIBE:
+        return this.unsubscribe(payload, connection);
+
+      default:
+        throw new Error(`Unsupported AIBP opcode: 0x${message.op.toString(16)}`);
+    }
+  }
+
+  /**
+   * { query }: initial result now, then every diff pushed on the connection.
+   * A topic (or { topic }): the session's subscriptions after adding it.
+   */
+  private subscribe(payload: any, connection: AIBPConnection): any {
+    if (typeof payload?.query !== 'string') {
+      return this.sessions.subscribe(connection.session, String(payload?.topic ?? payload));
+    }
+
+    const liveQuery = this.orchestrator.getDatabaseAgent().subscribeQuery(
+      payload.query,
+      diff => this.push(connection, diff.id, diff),
+      error => this.push(connection, liveQuery.id, { id: liveQuery.id, error: error.message })
+    );
+    connection.liveQueries.set(liveQuery.id, liveQuery);
+    return { id: liveQuery.id, result: liveQuery.getResult() };
+  }
+
+  /**
+   * { id } ends a live query of the connection; a topic (or { topic }) is
+   * removed from the session's subscriptions
+   */
+  private unsubscribe(payload: any, connection: AIBPConnection): any {
+    if (payload?.id === undefined) {
+      return this.sessions.unsubscribe(connection.session, String(payload?.topic ?? payload));
+    }
+
+    const liveQuery = connection.liveQueries.get(payload.id);
+    if (!liveQuery) {
+      throw new Error(`No live query: ${payload.id}`);
+    }
+    liveQuery.unsubscribe();
+    connection.liveQueries.delete(payload.id);
+    return { id: payload.id, closed: true };
+  }
+
+  private push(connection: AIBPConnection, requestId: number, data: any): void {
+    connection.send(
+      this.codec.encodeJSON({
+        op: this.codec.responseOp(AIBPOpCode.WS_BROADCAST),
+        session: connection.session,
+        requestId,
+        data
+      })
+    );
+  }
+
+  private getTypedNode(payload: any, type: string): GraphNode {
+    const id = typeof payload === 'object' ? payload?.id : payload;
+    const node = id !== undefined ? this.db.getNode(id) : undefined;
+    if (!node || node.type !== type) {
+      throw new Error(`${type} not found: ${id}`);
+    }
+    return node;
+  }
+
+  private createNode(payload: any, type: string): GraphNode {
+    if (payload?.id === undefined) {
+      throw new Error(`Creating a ${type} requires an id`);
+    }
+    if (this.db.getNode(payload.id)) {
+      throw new Error(`Node already exists: ${payload.id}`);
+    }
+
+    const node: GraphNode = {
+      id: payload.id,
+      type,
+      properties: payload.properties || {},
+      edges: payload.edges || []
+    };
+    this.db.addNode(node);
+    return node;
+  }
+
+  private updateNode(payload: any, type: string): GraphNode {
+    const node = this.getTypedNode(payload, type);
+    return this.db.patchProperties(node.id, payload.properties || {});
+  }
+
+  private errorFrame(session: number, requestId: number, message: string): Buffer {
+    return this.codec.encodeJSON({
+      op: AIBPOpCode.ERROR,
+      session,
+      requestId,
+      data: { message }
+    });
+  }
+}
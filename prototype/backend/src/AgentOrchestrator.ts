@@ -6,12 +6,14 @@ import { ProductAgent } from './agents/ProductAgent';
 import { GraphMemDB } from '@aiws/database';
 
 export class AgentOrchestrator {
+  private db: GraphMemDB;
   private designAgent: DesignAgent;
   private databaseAgent: DatabaseAgent;
   private apiAgent: APIAgent;
   private productAgent: ProductAgent;
 
   constructor(db: GraphMemDB) {
+    this.db = db;
     this.designAgent = new DesignAgent();
     this.databaseAgent = new DatabaseAgent(db);
     this.apiAgent = new APIAgent();
@@ -45,7 +47,10 @@ export class AgentOrchestrator {
       }
 
       try {
-        const response = await agent.handleCommand(command);
+        // Writes the agent makes record it and the command in the node history
+        const response = await this.db.withOrigin({ agent: agent.getName(), command: command.text }, () =>
+          agent.handleCommand(command)
+        );
         responses.push(response);
       } catch (error: any) {
         responses.push({
@@ -72,7 +77,8 @@ export class AgentOrchestrator {
 
     // Database-related keywords
     if (
-      lower.match(/\b(show|display|data|sort|filter|query|database|name|email|price)\b/)
+      lower.match(/\b(show|display|data|sort|filter|query|database|name|email|price|recommend)\b/) ||
+      lower.includes('also bought')
     ) {
       agents.push('database');
     }
@@ -0,0 +1,198 @@
+import { randomInt } from 'crypto';
+import { SessionState, SessionInfo } from '@aiws/shared';
+
+export interface Session {
+  id: number;
+  token: string;
+  createdAt: number;
+  lastSeen: number;
+  state: SessionState;
+}
+
+export interface SessionManagerOptions {
+  tokens: string[];
+  idleTimeout?: number;
+  defaultSubscriptions?: string[];
+}
+
+/**
+ * Session Manager - Authenticate-once sessions shared by JSON and AIBP clients
+ *
+ * Clients hand over a token once and receive a uint32 session ID. Every
+ * later message carries that ID instead of credentials. A session with an
+ * open connection (see attach) stays alive however quiet the client is;
+ * once detached it survives until idle for `idleTimeout`, so a client that
+ * reconnects with its old ID resumes its state.
+ */
+export class SessionManager {
+  private sessions: Map<number, Session>;
+  private tokens: Set<string>;
+  private idleTimeout: number;
+  private defaultSubscriptions: string[];
+  private sweepTimer: NodeJS.Timeout | null = null;
+  /** Open connections per session */
+  private attached: Map<number, number> = new Map();
+
+  constructor(options: SessionManagerOptions) {
+    this.sessions = new Map();
+    this.tokens = new Set(options.tokens);
+    this.idleTimeout = options.idleTimeout ?? 30 * 60 * 1000;
+    this.defaultSubscriptions = options.defaultSubscriptions || [];
+  }
+
+  /**
+   * Handshake: validate the token and issue (or resume) a session
+   */
+  authenticate(token: string, resumeId?: number): SessionInfo {
+    if (!this.acceptsToken(token)) {
+      throw new Error('Authentication failed: invalid token');
+    }
+
+    if (resumeId) {
+      const existing = this.get(resumeId);
+      if (existing && existing.token === token) {
+        existing.lastSeen = Date.now();
+        return { sessionId: existing.id, resumed: true, state: existing.state };
+      }
+    }
+
+    const now = Date.now();
+    const session: Session = {
+      id: this.generateId(),
+      token,
+      createdAt: now,
+      lastSeen: now,
+      state: { subscriptions: [...this.defaultSubscriptions] }
+    };
+    this.sessions.set(session.id, session);
+
+    return { sessionId: session.id, resumed: false, state: session.state };
+  }
+
+  /**
+   * Whether a token is one of the configured access tokens
+   */
+  acceptsToken(token: string | undefined): boolean {
+    return !!token && this.tokens.has(token);
+  }
+
+  /**
+   * Validate a session ID carried by a message and mark it as active
+   */
+  validate(sessionId: number): Session {
+    const session = this.get(sessionId);
+    if (!session) {
+      throw new Error('Invalid or expired session');
+    }
+    session.lastSeen = Date.now();
+    return session;
+  }
+
+  /**
+   * Get a live session (expired sessions are dropped)
+   */
+  get(sessionId: number): Session | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session) return undefined;
+
+    if (this.isExpired(session)) {
+      this.sessions.delete(sessionId);
+      return undefined;
+    }
+
+    return session;
+  }
+
+  updateState(sessionId: number, changes: Partial<SessionState>): SessionState {
+    const session = this.validate(sessionId);
+    Object.assign(session.state, changes);
+    return session.state;
+  }
+
+  subscribe(sessionId: number, topic: string): string[] {
+    const session = this.validate(sessionId);
+    if (!session.state.subscriptions.includes(topic)) {
+      session.state.subscriptions.push(topic);
+    }
+    return session.state.subscriptions;
+  }
+
+  unsubscribe(sessionId: number, topic: string): string[] {
+    const session = this.validate(sessionId);
+    session.state.subscriptions = session.state.subscriptions.filter(t => t !== topic);
+    return session.state.subscriptions;
+  }
+
+  /**
+   * A connection authenticated as the session opened
+   */
+  attach(sessionId: number): void {
+    this.attached.set(sessionId, (this.attached.get(sessionId) || 0) + 1);
+  }
+
+  /**
+   * A connection of the session closed; with none left, the session idles
+   * from now
+   */
+  detach(sessionId: number): void {
+    const remaining = (this.attached.get(sessionId) || 1) - 1;
+    if (remaining > 0) {
+      this.attached.set(sessionId, remaining);
+      return;
+    }
+    this.attached.delete(sessionId);
+    const session = this.sessions.get(sessionId);
+    if (session) session.lastSeen = Date.now();
+  }
+
+  end(sessionId: number): void {
+    this.sessions.delete(sessionId);
+    this.attached.delete(sessionId);
+  }
+
+  /**
+   * Drop idle sessions, returns the number removed
+   */
+  sweep(): number {
+    let removed = 0;
+    for (const [id, session] of this.sessions) {
+      if (this.isExpired(session)) {
+        this.sessions.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  start(interval: number = 60000): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => this.sweep(), interval);
+    this.sweepTimer.unref();
+  }
+
+  stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  getStats(): any {
+    return {
+      active: this.sessions.size,
+      idleTimeout: this.idleTimeout
+    };
+  }
+
+  private isExpired(session: Session): boolean {
+    return !this.attached.has(session.id) && Date.now() - session.lastSeen > this.idleTimeout;
+  }
+
+  private generateId(): number {
+    let id: number;
+    do {
+      id = randomInt(1, 0xffffffff);
+    } while (this.sessions.has(id));
+    return id;
+  }
+}
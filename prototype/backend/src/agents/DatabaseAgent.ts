@@ -1,15 +1,27 @@
 import { BaseAgent } from './BaseAgent';
-import { VisualCommand, AgentResponse } from '@aiws/shared';
-import { GraphMemDB, AIQCompiler } from '@aiws/database';
+import { VisualCommand, AgentResponse, AIQQuery, LiveQueryDiff } from '@aiws/shared';
+import {
+  GraphMemDB,
+  AIQCompiler,
+  GraphAlgorithms,
+  LiveQuery,
+  Page,
+  QueryPlan,
+  SchemaError,
+  Transaction,
+  formatPlan
+} from '@aiws/database';
 
 export class DatabaseAgent extends BaseAgent {
   private db: GraphMemDB;
   private compiler: AIQCompiler;
+  private algorithms: GraphAlgorithms;
 
   constructor(db: GraphMemDB) {
-    super('Database Agent', ['database', 'models', 'queries', 'logging']);
+    super('Database Agent', ['database', 'models', 'queries', 'logging', 'analytics']);
     this.db = db;
     this.compiler = new AIQCompiler();
+    this.algorithms = new GraphAlgorithms(db);
   }
 
   async handleCommand(command: VisualCommand): Promise<AgentResponse> {
@@ -19,7 +31,9 @@ export class DatabaseAgent extends BaseAgent {
     try {
       let result;
 
-      if (intent.action === 'update_data') {
+      if (/recommend|also bought|similar products/.test(command.text.toLowerCase())) {
+        result = await this.addRecommendations(command);
+      } else if (intent.action === 'update_data') {
         result = await this.modifyDataQuery(command, intent);
       } else if (intent.action === 'sort') {
         result = await this.addSorting(command, intent);
@@ -120,9 +134,113 @@ export class DatabaseAgent extends BaseAgent {
     };
   }
 
-  executeQuery(aiqString: string): any {
+  private async addRecommendations(command: VisualCommand) {
+    const productId = command.text.match(/\b(?:product\s*#?|id\s*)(\d+)\b/i)?.[1];
+    const products = this.recommendProducts(productId);
+
+    return {
+      message: productId
+        ? `Customers who bought product ${productId} also bought: ${products.map(p => p.properties.title).join(', ') || 'nothing yet'}`
+        : `Most popular products: ${products.map(p => p.properties.title).join(', ')}`,
+      changes: {
+        type: 'recommendations',
+        productId,
+        products
+      }
+    };
+  }
+
+  /**
+   * "Customers who bought this also bought": personalized PageRank from the
+   * product across order edges. Without a product, returns overall popularity.
+   */
+  recommendProducts(productId?: string | number, limit: number = 5) {
+    return this.algorithms
+      .pageRank({
+        relationships: ['CONTAINS', 'HAS_ORDER'],
+        direction: 'both',
+        type: 'product',
+        seed: productId
+      })
+      .filter(ranked => productId === undefined || ranked.score > 0)
+      .slice(0, limit)
+      .map(ranked => ranked.node);
+  }
+
+  /**
+   * Parse, check against the node type schemas and run a query, inside
+   * an open transaction when one is given
+   */
+  executeQuery(aiqString: string, transaction?: Transaction): any {
     const query = this.compiler.parse(aiqString);
-    return this.db.executeQuery(query);
+    this.checkSchema(query);
+    return this.db.withOrigin({ agent: this.name, query: query.name || undefined }, () =>
+      transaction ? transaction.executeQuery(query) : this.db.executeQuery(query)
+    );
+  }
+
+  /**
+   * Parse, check and run a query for one page of its result: the rows and
+   * the cursor (AFTER) of the next page, null on the last one
+   */
+  executePage(aiqString: string): Page {
+    const query = this.compiler.parse(aiqString);
+    this.checkSchema(query);
+    return this.db.withOrigin({ agent: this.name, query: query.name || undefined }, () => this.db.executePage(query));
+  }
+
+  /**
+   * Parse, check and run a query page by page (see GraphMemDB.executePages);
+   * errors surface when the first page is asked for
+   */
+  *executePages(aiqString: string, pageSize: number): Generator<Page> {
+    const query = this.compiler.parse(aiqString);
+    this.checkSchema(query);
+    const origin = { agent: this.name, query: query.name || undefined };
+    const pages = this.db.executePages(query, pageSize);
+    for (;;) {
+      const page = this.db.withOrigin(origin, () => pages.next());
+      if (page.done) return;
+      yield page.value;
+    }
+  }
+
+  /**
+   * Parse, check and keep a read query live; onDiff gets its result changes
+   */
+  subscribeQuery(
+    aiqString: string,
+    onDiff: (diff: LiveQueryDiff) => void,
+    onError?: (error: Error) => void
+  ): LiveQuery {
+    const query = this.compiler.parse(aiqString);
+    this.checkSchema(query);
+    return this.db.subscribe(query, onDiff, onError);
+  }
+
+  /**
+   * Run a query and report estimated vs actual rows and time per plan operator
+   */
+  explainQuery(aiqString: string): { plan: QueryPlan; explanation: string } {
+    const query = this.compiler.parse(aiqString);
+    this.checkSchema(query);
+    const plan = this.db.explain(query);
+    return { plan, explanation: formatPlan(plan) };
+  }
+
+  /**
+   * Schema problems of a generated query, without running it
+   */
+  validateQuery(aiqString: string): { valid: boolean; errors: string[] } {
+    const errors = this.db.validateQuery(this.compiler.parse(aiqString));
+    return { valid: errors.length === 0, errors };
+  }
+
+  private checkSchema(query: AIQQuery): void {
+    const errors = this.db.validateQuery(query);
+    if (errors.length > 0) {
+      throw new SchemaError(errors);
+    }
   }
 
   getDbStats(): any {
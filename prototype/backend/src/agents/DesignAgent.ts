@@ -133,7 +133,7 @@ export class DesignAgent extends BaseAgent {
           <svg class="aiws-search-icon" width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
             <path fillRule="evenodd" d="M8 4a4 4 0 100 8 4 4 0 000-8zM2 8a6 6 0 1110.89 3.476l4.817 4.817a1 1 0 01-1.414 1.414l-4.816-4.816A6 6 0 012 8z" clipRule="evenodd" />
           </svg>
-          <input type="search" placeholder="Search..." class="aiws-search-input" />
+          <input type="search" placeholder="Search..." class="aiws-search-input" data-search-type="product" />
         </div>
       `;
     } else if (text.includes('card')) {
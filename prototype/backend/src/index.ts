@@ -1,10 +1,22 @@
 import express from 'express';
 import { createServer } from 'http';
+import { randomBytes } from 'crypto';
 import { WebSocketServer, WebSocket } from 'ws';
 import cors from 'cors';
 import bodyParser from 'body-parser';
-import { GraphMemDB } from '@aiws/database';
+import {
+  GraphMemDB,
+  HashedEmbeddingProvider,
+  AIQSyntaxError,
+  LiveQuery,
+  Page,
+  SchemaError,
+  Transaction,
+  TransactionConflictError
+} from '@aiws/database';
 import { AgentOrchestrator } from './AgentOrchestrator';
+import { AIBPHandler } from './AIBPHandler';
+import { SessionManager } from './SessionManager';
 import { VisualCommand } from '@aiws/shared';
 
 const app = express();
@@ -16,25 +28,118 @@ app.use(cors());
 app.use(bodyParser.json());
 
 // Initialize database and orchestrator
-const db = new GraphMemDB();
+const db = new GraphMemDB({
+  dataDir: process.env.AIWS_DATA_DIR || './data',
+  // Offline embeddings so SIMILAR TO works on product text
+  embeddingProvider: new HashedEmbeddingProvider(),
+  embeddedProperties: { product: ['title', 'category'] },
+  textIndexes: { product: ['title', 'category'], user: ['name', 'email'] },
+  indexes: [
+    { type: 'user', fields: ['email'], unique: true },
+    { type: 'product', fields: ['category', 'price'] },
+    { type: 'product', fields: ['price'] },
+    { type: 'order', fields: ['user_id'] }
+  ],
+  schemas: [
+    {
+      type: 'user',
+      properties: {
+        name: { type: 'string', required: true },
+        email: { type: 'string', required: true },
+        status: { type: 'string', enum: ['active', 'inactive', 'suspended'] },
+        created_at: { type: 'date' }
+      },
+      edges: { HAS_ORDER: ['order'] }
+    },
+    {
+      type: 'product',
+      properties: {
+        title: { type: 'string', required: true },
+        price: { type: 'number', required: true },
+        category: { type: 'string' },
+        status: { type: 'string', enum: ['draft', 'published', 'archived'] }
+      },
+      edges: {}
+    },
+    {
+      type: 'order',
+      properties: {
+        user_id: { type: 'number', required: true },
+        total: { type: 'number', required: true },
+        status: { type: 'string', enum: ['pending', 'completed', 'cancelled'] },
+        created_at: { type: 'date' }
+      },
+      edges: { CONTAINS: ['product'] }
+    }
+  ]
+});
 const orchestrator = new AgentOrchestrator(db);
 
-// Seed database with sample data
-seedDatabase(db);
+// Seed database with sample data on first boot only
+if (db.getStats().totalNodes === 0) {
+  seedDatabase(db);
+}
+
+// Sessions (authenticate once per connection, resumable after reconnect)
+const sessions = new SessionManager({
+  tokens: accessTokens(),
+  idleTimeout: Number(process.env.AIWS_SESSION_IDLE_MS) || 30 * 60 * 1000,
+  defaultSubscriptions: ['updates']
+});
+sessions.start();
+
+const aibp = new AIBPHandler(db, orchestrator, sessions);
+
+// Authenticated WebSocket connections and their session IDs
+const clients = new Map<WebSocket, number>();
+
+// Transactions opened with { type: "begin" }, one per connection
+const transactions = new Map<WebSocket, Transaction>();
+
+// Live queries opened with { type: "subscribe_query" }, by connection and id
+const liveQueries = new Map<WebSocket, Map<number, LiveQuery>>();
 
-// WebSocket connections
-const clients = new Set<WebSocket>();
+// Change data capture for clients subscribed to the "changes" topic
+db.onChange(changes => broadcast({ type: 'changes', changes }, 'changes'));
 
 wss.on('connection', (ws: WebSocket) => {
   console.log('Client connected');
-  clients.add(ws);
 
-  ws.on('message', async (message: string) => {
+  ws.on('message', async (message: Buffer, isBinary: boolean) => {
+    // Binary frames speak AIBP, text frames speak JSON
+    if (isBinary) {
+      const push = (frame: Buffer) => {
+        if (ws.readyState === WebSocket.OPEN) ws.send(frame, { binary: true });
+      };
+      ws.send(await aibp.handleFrame(message, ws, push), { binary: true });
+      return;
+    }
+
     try {
-      const data = JSON.parse(message);
+      const data = JSON.parse(message.toString());
+
+      if (data.type === 'auth') {
+        const info = sessions.authenticate(data.token, data.sessionId);
+        const previous = clients.get(ws);
+        if (previous !== undefined) sessions.detach(previous);
+        sessions.attach(info.sessionId);
+        clients.set(ws, info.sessionId);
+        ws.send(JSON.stringify({ type: 'session', ...info }));
+        return;
+      }
+
+      const sessionId = clients.get(ws);
+      if (sessionId === undefined) {
+        throw new Error('Not authenticated: send { type: "auth", token } first');
+      }
+      sessions.validate(sessionId);
 
       if (data.type === 'command') {
         const command: VisualCommand = data.command;
+        sessions.updateState(sessionId, {
+          page: command.context.page,
+          selectedXPath: command.context.element.xpath
+        });
         const responses = await orchestrator.processCommand(command);
 
         // Send response back to client
@@ -52,12 +157,62 @@ wss.on('connection', (ws: WebSocket) => {
             changes: responses.filter(r => r.changes).map(r => r.changes)
           });
         }
+      } else if (data.type === 'subscribe') {
+        const subscriptions = sessions.subscribe(sessionId, data.topic);
+        ws.send(JSON.stringify({ type: 'subscriptions', subscriptions }));
+      } else if (data.type === 'unsubscribe') {
+        const subscriptions = sessions.unsubscribe(sessionId, data.topic);
+        ws.send(JSON.stringify({ type: 'subscriptions', subscriptions }));
+      } else if (data.type === 'begin') {
+        transactions.get(ws)?.rollback();
+        const transaction = db.beginTransaction();
+        transactions.set(ws, transaction);
+        ws.send(JSON.stringify({ type: 'transaction', id: transaction.id, status: transaction.getStatus() }));
+      } else if (data.type === 'query') {
+        // Runs in the connection's open transaction, if any
+        const result = orchestrator.getDatabaseAgent().executeQuery(data.query, transactions.get(ws));
+        ws.send(JSON.stringify({ type: 'result', requestId: data.requestId, result }));
+      } else if (data.type === 'commit' || data.type === 'rollback') {
+        const transaction = transactions.get(ws);
+        if (!transaction) {
+          throw new Error('No open transaction: send { type: "begin" } first');
+        }
+        transactions.delete(ws);
+
+        if (data.type === 'commit') {
+          transaction.commit();
+        } else {
+          transaction.rollback();
+        }
+        ws.send(JSON.stringify({ type: 'transaction', id: transaction.id, status: transaction.getStatus() }));
+      } else if (data.type === 'subscribe_query') {
+        // Initial result now, then a diff whenever a write changes it
+        const liveQuery = orchestrator.getDatabaseAgent().subscribeQuery(
+          data.query,
+          diff => send(ws, { type: 'live_diff', ...diff }),
+          error => send(ws, { type: 'error', id: liveQuery.id, message: error.message })
+        );
+        if (!liveQueries.has(ws)) liveQueries.set(ws, new Map());
+        liveQueries.get(ws)!.set(liveQuery.id, liveQuery);
+        ws.send(
+          JSON.stringify({ type: 'live_query', id: liveQuery.id, requestId: data.requestId, result: liveQuery.getResult() })
+        );
+      } else if (data.type === 'unsubscribe_query') {
+        const liveQuery = liveQueries.get(ws)?.get(data.id);
+        if (!liveQuery) {
+          throw new Error(`No live query: ${data.id}`);
+        }
+        liveQuery.unsubscribe();
+        liveQueries.get(ws)!.delete(data.id);
+        ws.send(JSON.stringify({ type: 'live_query_closed', id: data.id }));
       }
     } catch (error: any) {
       ws.send(
         JSON.stringify({
           type: 'error',
-          message: error.message
+          message: error.message,
+          // Conflicting nodes; the client can begin again and retry
+          conflict: error instanceof TransactionConflictError ? error.ids : undefined
         })
       );
     }
@@ -65,20 +220,56 @@ wss.on('connection', (ws: WebSocket) => {
 
   ws.on('close', () => {
     console.log('Client disconnected');
+    // The session itself stays alive until idle expiry so the client can resume
+    const sessionId = clients.get(ws);
+    if (sessionId !== undefined) sessions.detach(sessionId);
     clients.delete(ws);
+    transactions.get(ws)?.rollback();
+    transactions.delete(ws);
+    liveQueries.get(ws)?.forEach(liveQuery => liveQuery.unsubscribe());
+    liveQueries.delete(ws);
+    aibp.release(ws);
   });
 });
 
-function broadcast(data: any) {
+function send(client: WebSocket, data: any) {
+  if (client.readyState === WebSocket.OPEN) {
+    client.send(JSON.stringify(data));
+  }
+}
+
+function broadcast(data: any, topic: string = 'updates') {
   const message = JSON.stringify(data);
-  clients.forEach(client => {
-    if (client.readyState === WebSocket.OPEN) {
+  clients.forEach((sessionId, client) => {
+    const session = sessions.get(sessionId);
+    if (
+      client.readyState === WebSocket.OPEN &&
+      session?.state.subscriptions.includes(topic)
+    ) {
       client.send(message);
     }
   });
+  aibp.broadcast(data, topic);
 }
 
-// REST API endpoints
+// REST API endpoints. All but /ai/status need an access token
+// (Authorization: Bearer <token>) or a live session ID (X-AIWS-Session).
+app.use('/ai', (req, res, next) => {
+  if (req.path === '/status') return next();
+
+  const [scheme, token] = (req.headers.authorization || '').split(' ');
+  const sessionId = Number(req.headers['x-aiws-session']);
+  if (scheme === 'Bearer' && sessions.acceptsToken(token)) return next();
+  if (sessionId && sessions.get(sessionId)) {
+    sessions.validate(sessionId);
+    return next();
+  }
+  res.status(401).json({
+    success: false,
+    message: 'Not authenticated: send Authorization: Bearer <token> or X-AIWS-Session'
+  });
+});
+
 app.post('/ai/command', async (req, res) => {
   try {
     const command: VisualCommand = req.body;
@@ -108,15 +299,147 @@ app.get('/ai/status', (req, res) => {
   res.json({
     success: true,
     agents: orchestrator.getAgentStatus(),
-    database: db.getStats()
+    database: db.getStats(),
+    sessions: sessions.getStats()
   });
 });
 
 app.post('/ai/query', async (req, res) => {
   try {
-    const { query } = req.body;
+    const { query, explain } = req.body;
     const dbAgent = orchestrator.getDatabaseAgent();
-    const result = dbAgent.executeQuery(query);
+
+    if (explain) {
+      res.json({
+        success: true,
+        ...dbAgent.explainQuery(query)
+      });
+      return;
+    }
+
+    // Reads with a LIMIT come back one page at a time; pass nextCursor as AFTER
+    const { rows, nextCursor } = dbAgent.executePage(query);
+
+    res.json({
+      success: true,
+      result: rows,
+      nextCursor
+    });
+  } catch (error: any) {
+    sendQueryError(res, error);
+  }
+});
+
+/** Rows per page run while streaming a result */
+const STREAM_PAGE_SIZE = 500;
+
+// Large results as NDJSON: a {"row": ...} line per row, written as fast
+// as the client reads them, then {"done": true, "count", "nextCursor"}.
+// The query runs a page at a time as the client reads, so only one page
+// is held in memory.
+app.post('/ai/query/stream', async (req, res) => {
+  const pages = orchestrator.getDatabaseAgent().executePages(req.body.query, STREAM_PAGE_SIZE);
+  let page: IteratorResult<Page>;
+  try {
+    page = pages.next();
+  } catch (error: any) {
+    sendQueryError(res, error);
+    return;
+  }
+
+  res.status(200).type('application/x-ndjson');
+  let count = 0;
+  let nextCursor: string | null = null;
+  try {
+    for (; !page.done; page = pages.next()) {
+      for (const row of page.value.rows) {
+        if (res.destroyed) return;
+        if (!res.write(JSON.stringify({ row }) + '\n')) await drained(res);
+      }
+      count += page.value.rows.length;
+      nextCursor = page.value.nextCursor;
+    }
+  } catch (error: any) {
+    // The status is already sent, so the error ends the stream instead
+    res.end(JSON.stringify({ done: false, count, error: error.message }) + '\n');
+    return;
+  }
+  res.end(JSON.stringify({ done: true, count, nextCursor }) + '\n');
+});
+
+function sendQueryError(res: express.Response, error: any) {
+  // Syntax errors point at the offending line/column of the query,
+  // schema errors list every field that does not conform
+  if (error instanceof AIQSyntaxError || error instanceof SchemaError) {
+    res.status(400).json({
+      success: false,
+      message: error.message,
+      error: error.toJSON()
+    });
+    return;
+  }
+  if (error instanceof TransactionConflictError) {
+    res.status(409).json({
+      success: false,
+      message: error.message,
+      error: error.toJSON()
+    });
+    return;
+  }
+
+  res.status(500).json({
+    success: false,
+    message: error.message
+  });
+}
+
+/**
+ * Resolves once the response can take more data or the client is gone
+ */
+function drained(res: express.Response): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+}
+
+// Change timeline of a node: one version per write, oldest first, with
+// the agent / command / query that made it
+app.get('/ai/history/:nodeId', (req, res) => {
+  const { nodeId } = req.params;
+  const history = db.getHistory(nodeId);
+  const current = db.getNode(nodeId);
+
+  if (!current && history.length === 0) {
+    res.status(404).json({
+      success: false,
+      message: `Node not found: ${nodeId}`
+    });
+    return;
+  }
+
+  res.json({
+    success: true,
+    nodeId,
+    current: current || null,
+    history
+  });
+});
+
+app.get('/ai/search', (req, res) => {
+  try {
+    const query = String(req.query.q || '');
+    const type = req.query.type ? String(req.query.type) : undefined;
+    const result = db.textSearch(query, type, {
+      // Search-as-you-type: the last term matches as a prefix unless prefix=false
+      prefix: req.query.prefix !== 'false',
+      limit: Number(req.query.limit) || 20
+    });
 
     res.json({
       success: true,
@@ -144,6 +467,7 @@ server.listen(PORT, () => {
 ╠═══════════════════════════════════════════════════╣
 ║   HTTP Server: http://localhost:${PORT}           ║
 ║   WebSocket:   ws://localhost:${PORT}             ║
+║   AIBP:        binary frames on WebSocket         ║
 ╠═══════════════════════════════════════════════════╣
 ║   Agents Active:                                  ║
 ║   ✓ Design Agent (UI/UX)                         ║
@@ -154,10 +478,40 @@ server.listen(PORT, () => {
 ║   Database: GraphMemDB                            ║
 ║   Nodes: ${db.getStats().totalNodes.toString().padEnd(37)}║
 ║   Cache: Active                                   ║
+║   Storage: snapshot + WAL                         ║
 ╚═══════════════════════════════════════════════════╝
   `);
 });
 
+// Snapshot and close the WAL on shutdown
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    sessions.stop();
+    db.close();
+    process.exit(0);
+  });
+}
+
+/**
+ * Tokens from AIWS_TOKENS (comma-separated). Without them the server only
+ * starts with AIWS_DEV=1, using a random token printed to the console.
+ */
+function accessTokens(): string[] {
+  const tokens = (process.env.AIWS_TOKENS || '')
+    .split(',')
+    .map(token => token.trim())
+    .filter(Boolean);
+  if (tokens.length > 0) return tokens;
+
+  if (process.env.AIWS_DEV !== '1') {
+    console.error('AIWS_TOKENS is not set. Set it to the allowed access tokens, or AIWS_DEV=1 for a development token.');
+    process.exit(1);
+  }
+  const token = randomBytes(16).toString('hex');
+  console.warn(`AIWS_TOKENS is not set; development token for this run: ${token}`);
+  return [token];
+}
+
 function seedDatabase(db: GraphMemDB) {
   // Add sample users
   db.addNode({
@@ -0,0 +1,337 @@
+import { AlgorithmCall, TraversalDirection } from '@aiws/shared';
+
+/**
+ * AIQ AST - Typed syntax tree produced by AIQParser
+ *
+ * Every node records the position of its first token so that errors found
+ * while lowering the tree to an AIQQuery can still point at the source.
+ */
+
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export interface AIQDocument {
+  kind: 'Document';
+  name?: string;
+  intent?: string;
+  statement: StatementNode;
+  position: SourcePosition;
+}
+
+export type StatementNode =
+  | OperationStatement
+  | MatchStatement
+  | CallStatement
+  | CreateIndexStatement
+  | DropIndexStatement
+  | TransactionStatement;
+
+export type OperationKeyword = 'FETCH' | 'INSERT' | 'UPDATE' | 'DELETE' | 'GRAPH_TRAVERSE';
+
+export interface OperationStatement {
+  kind: 'Operation';
+  operation: OperationKeyword;
+  target?: string;
+  clauses: ClauseNode[];
+  position: SourcePosition;
+}
+
+export interface MatchStatement {
+  kind: 'Match';
+  pattern: PatternNodeAst;
+  clauses: ClauseNode[];
+  position: SourcePosition;
+}
+
+export interface CallStatement {
+  kind: 'Call';
+  algorithm: AlgorithmCall['name'];
+  target?: string;
+  clauses: ClauseNode[];
+  position: SourcePosition;
+}
+
+/**
+ * "CREATE [UNIQUE] INDEX [name] ON type (field, ...)"
+ */
+export interface CreateIndexStatement {
+  kind: 'CreateIndex';
+  name?: string;
+  target: string;
+  fields: string[];
+  unique: boolean;
+  position: SourcePosition;
+}
+
+/**
+ * "DROP INDEX name"
+ */
+export interface DropIndexStatement {
+  kind: 'DropIndex';
+  name: string;
+  position: SourcePosition;
+}
+
+/**
+ * "BEGIN" statement* ("COMMIT" | "ROLLBACK"), one statement per line
+ */
+export interface TransactionStatement {
+  kind: 'Transaction';
+  statements: StatementNode[];
+  commit: boolean;
+  position: SourcePosition;
+}
+
+export interface PatternNodeAst {
+  kind: 'Pattern';
+  nodes: { alias: string; type?: string; position: SourcePosition }[];
+  hops: { relationship: string; direction: TraversalDirection; position: SourcePosition }[];
+  position: SourcePosition;
+}
+
+export type ClauseNode =
+  | BlockClause
+  | ConditionClause
+  | SortClause
+  | GroupClause
+  | LimitClause
+  | StartClause
+  | TraverseClause
+  | DepthClause
+  | ToClause
+  | SimilarClause
+  | SearchClause
+  | CacheClause
+  | AsOfClause
+  | AfterClause
+  | ReturnClause;
+
+export type BlockKeyword = 'COMPUTE' | 'VALUES' | 'SET' | 'LINK' | 'UNLINK';
+
+export interface BlockClause {
+  kind: 'Block';
+  block: BlockKeyword;
+  entries: EntryNode[];
+  position: SourcePosition;
+}
+
+export type ComparisonOperator = '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+/**
+ * WHERE / FILTER: one condition per line, ANDed together
+ */
+export interface ConditionClause {
+  kind: 'Condition';
+  block: 'WHERE' | 'FILTER';
+  conditions: ConditionNode[];
+  position: SourcePosition;
+}
+
+export type ConditionNode =
+  | ComparisonCondition
+  | BetweenCondition
+  | ExistsCondition
+  | LogicalCondition
+  | NotCondition;
+
+/**
+ * "key: value", "key > value", key IN [a, b], key LIKE "A%", key CONTAINS value
+ */
+export interface ComparisonCondition {
+  kind: 'Comparison';
+  key: string;
+  operator: ComparisonOperator | 'IN' | 'LIKE' | 'CONTAINS';
+  value: ValueNode;
+  position: SourcePosition;
+}
+
+/**
+ * "key BETWEEN low AND high" (inclusive)
+ */
+export interface BetweenCondition {
+  kind: 'Between';
+  key: string;
+  lower: ValueNode;
+  upper: ValueNode;
+  position: SourcePosition;
+}
+
+/**
+ * "EXISTS key" / "key IS NOT NULL" (exists) and "key IS NULL" (missing or null)
+ */
+export interface ExistsCondition {
+  kind: 'Exists';
+  key: string;
+  exists: boolean;
+  position: SourcePosition;
+}
+
+export interface LogicalCondition {
+  kind: 'Logical';
+  operator: 'AND' | 'OR';
+  operands: ConditionNode[];
+  position: SourcePosition;
+}
+
+export interface NotCondition {
+  kind: 'Not';
+  operand: ConditionNode;
+  position: SourcePosition;
+}
+
+/**
+ * "key: value", "key: > value" or "key > value"
+ */
+export interface EntryNode {
+  kind: 'Entry';
+  key: string;
+  operator: ComparisonOperator;
+  value: ValueNode;
+  position: SourcePosition;
+}
+
+export type ValueNode = LiteralValue | ListValue | CallValue;
+
+export interface LiteralValue {
+  kind: 'Literal';
+  value: string | number | boolean | Date;
+  /** Source text of the value */
+  raw: string;
+  /** Written as a single quoted string */
+  quoted?: boolean;
+  position: SourcePosition;
+}
+
+/**
+ * "[a, b]" (bracketed) or a bare "a, b" list
+ */
+export interface ListValue {
+  kind: 'List';
+  items: ValueNode[];
+  bracketed: boolean;
+  raw: string;
+  position: SourcePosition;
+}
+
+/**
+ * "COUNT(orders)", "SUM(orders.total)"
+ */
+export interface CallValue {
+  kind: 'Call';
+  name: string;
+  argument?: string;
+  raw: string;
+  position: SourcePosition;
+}
+
+export interface SortClause {
+  kind: 'Sort';
+  field: string;
+  order: 'ASC' | 'DESC';
+  position: SourcePosition;
+}
+
+export interface GroupClause {
+  kind: 'Group';
+  fields: string[];
+  position: SourcePosition;
+}
+
+export interface LimitClause {
+  kind: 'Limit';
+  value: number;
+  position: SourcePosition;
+}
+
+export interface StartClause {
+  kind: 'Start';
+  node: LiteralValue;
+  position: SourcePosition;
+}
+
+export interface TraverseClause {
+  kind: 'Traverse';
+  relationships: string[];
+  direction: TraversalDirection;
+  position: SourcePosition;
+}
+
+export interface DepthClause {
+  kind: 'Depth';
+  value: number;
+  position: SourcePosition;
+}
+
+export interface ToClause {
+  kind: 'To';
+  node: LiteralValue;
+  position: SourcePosition;
+}
+
+export interface SimilarClause {
+  kind: 'Similar';
+  to?: string | number;
+  text?: string;
+  vector?: number[];
+  threshold?: number;
+  position: SourcePosition;
+}
+
+export interface SearchClause {
+  kind: 'Search';
+  query: string;
+  position: SourcePosition;
+}
+
+/**
+ * "AS OF 2024-05-01T12:00:00Z", "AS OF 1714564800000" (epoch ms) or
+ * "AS OF 10m AGO"
+ */
+export interface AsOfClause {
+  kind: 'AsOf';
+  /** Epoch milliseconds */
+  timestamp: number;
+  position: SourcePosition;
+}
+
+/**
+ * "RETURN { name, email, buyer: name, orders: { total } }"
+ */
+export interface ReturnClause {
+  kind: 'Return';
+  fields: ProjectionEntry[];
+  position: SourcePosition;
+}
+
+/**
+ * "field", "key: field", "key { ... }" or "key: field { ... }" in RETURN
+ */
+export interface ProjectionEntry {
+  kind: 'Projection';
+  key: string;
+  field: string;
+  /** Nested projection of the value(s) or related nodes */
+  fields?: ProjectionEntry[];
+  position: SourcePosition;
+}
+
+/**
+ * "AFTER <cursor>": continue after the row a previous page ended with
+ */
+export interface AfterClause {
+  kind: 'After';
+  cursor: string;
+  position: SourcePosition;
+}
+
+/**
+ * "CACHE 30s" (ms, s, m or h; seconds without a unit) or "CACHE OFF"
+ */
+export interface CacheClause {
+  kind: 'Cache';
+  /** Milliseconds; 0 for OFF */
+  ttl: number;
+  position: SourcePosition;
+}
@@ -1,8 +1,30 @@
-import { AIQQuery, ComputeExpression, SortExpression } from '@aiws/shared';
+import { AIQQuery, ComputeExpression, Conditions, GraphEdge, PathPattern, Projection } from '@aiws/shared';
+import { AIQParser } from './AIQParser';
+import { AIQSyntaxError } from './AIQLexer';
+import { isOperatorObject } from './Conditions';
+import { GraphMemDB } from './GraphMemDB';
+import { formatPlan, PlanNode, QueryPlan } from './QueryPlanner';
+import {
+  AIQDocument,
+  BlockClause,
+  ConditionClause,
+  ConditionNode,
+  LiteralValue,
+  ProjectionEntry,
+  SourcePosition,
+  TraverseClause,
+  ValueNode
+} from './AIQAst';
+
+const AGGREGATES: ComputeExpression['function'][] = ['COUNT', 'SUM', 'AVG', 'MIN', 'MAX'];
 
 /**
  * AIQ Compiler - Compiles AIQ query language to executable queries
  *
+ * Source is parsed by AIQParser (grammar documented there) into a syntax
+ * tree, which parse() lowers to an AIQQuery. Errors are AIQSyntaxErrors
+ * carrying the line and column.
+ *
  * Example AIQ:
  * @QUERY get_top_customers
  * @INTENT "Find high-value active customers"
@@ -22,262 +44,540 @@ import { AIQQuery, ComputeExpression, SortExpression } from '@aiws/shared';
  *   SORT BY total_spent DESC
  *   LIMIT 10
  * }
+ *
+ * Aggregates over a relationship or a neighbouring type ("orders" reaches
+ * order nodes over any edge) are computed per node, and FILTER / SORT BY
+ * then see the computed fields. GROUP BY returns one row per group; plain
+ * property aggregates without it collapse the result to a single row:
+ * FETCH product {
+ *   GROUP BY category
+ *   COMPUTE {
+ *     products: COUNT()
+ *     average_price: AVG(price)
+ *   }
+ * }
+ *
+ * WHERE and FILTER lines are ANDed; a line may combine predicates with
+ * AND / OR / NOT and parentheses:
+ * FETCH product {
+ *   WHERE {
+ *     category IN [electronics, books] OR price BETWEEN 10 AND 50
+ *     NOT title LIKE "%refurbished%"
+ *     discontinued_at IS NULL
+ *   }
+ * }
+ *
+ * Traversals start at a node and follow relationships; arrows give the
+ * direction (-> outgoing, <- incoming, <-> both):
+ * GRAPH_TRAVERSE user {
+ *   START product:201
+ *   TRAVERSE <- CONTAINS <- HAS_ORDER
+ * }
+ *
+ * Path patterns bind one node per step and return { alias: node } tuples;
+ * WHERE / FILTER keys and SORT BY fields are prefixed with the alias:
+ * MATCH u:user -HAS_ORDER-> o:order -CONTAINS-> p:product {
+ *   WHERE {
+ *     p.category: electronics
+ *   }
+ *   SORT BY o.total DESC
+ * }
+ *
+ * Graph algorithms run with CALL; START / TO name the source and target,
+ * TRAVERSE limits relationships and direction, and a target type narrows
+ * the returned nodes (PAGERANK with START is personalized to that node):
+ * CALL PAGERANK product {
+ *   START product:201
+ *   TRAVERSE <-> CONTAINS, HAS_ORDER
+ *   LIMIT 5
+ * }
+ *
+ * Vector similarity ranks the candidates by embedding and combines with
+ * WHERE, FILTER and traversal. SIMILAR TO takes a node reference or quoted
+ * text (embedded by the registered provider), NEAR a literal vector;
+ * THRESHOLD sets the minimum score:
+ * FETCH product {
+ *   SIMILAR TO product:201 THRESHOLD 0.5
+ *   WHERE {
+ *     category: electronics
+ *   }
+ *   LIMIT 5
+ * }
+ *
+ * Full-text search keeps nodes matching any term, ranked by BM25 (types
+ * need a full-text index); a trailing * matches a prefix:
+ * FETCH product {
+ *   SEARCH "wireless mou*"
+ *   FILTER {
+ *     price: < 100
+ *   }
+ * }
+ *
+ * Read results are cached until a write changes what they read, for five
+ * minutes unless CACHE gives a TTL (ms, s, m or h) or turns caching OFF:
+ * FETCH product {
+ *   WHERE {
+ *     status: published
+ *   }
+ *   CACHE 30s
+ * }
+ *
+ * Writes use VALUES (INSERT), SET (UPDATE) and LINK / UNLINK for edges:
+ * INSERT order {
+ *   VALUES {
+ *     total: 49
+ *     status: pending
+ *   }
+ *   LINK {
+ *     CONTAINS: 201, 202
+ *   }
+ * }
+ *
+ * UPDATE product {
+ *   WHERE {
+ *     id: 202
+ *   }
+ *   SET {
+ *     price: 25
+ *   }
+ * }
+ *
+ * BEGIN ... COMMIT runs statements in one transaction: all of them or none.
+ * "$n" stands for the id written by the nth statement; ROLLBACK discards
+ * the writes:
+ * BEGIN
+ * INSERT order {
+ *   VALUES {
+ *     total: 49
+ *   }
+ * }
+ * UPDATE user {
+ *   WHERE {
+ *     id: 1
+ *   }
+ *   LINK {
+ *     HAS_ORDER: $1
+ *   }
+ * }
+ * COMMIT
+ *
+ * Secondary indexes serve equality and IN on their leading fields, then a
+ * range or SORT BY on the next one; UNIQUE rejects duplicate values:
+ * CREATE UNIQUE INDEX user_email ON user (email)
+ * CREATE INDEX ON product (category, price)
+ * DROP INDEX user_email
  */
 export class AIQCompiler {
   /**
-   * Parse AIQ string to query object
+   * Parse AIQ string to query object (throws AIQSyntaxError with the
+   * line and column of the problem)
    */
   parse(aiqString: string): AIQQuery {
-    const lines = aiqString.split('\n').map(line => line.trim()).filter(Boolean);
-
-    let name = '';
-    let intent = '';
-    let operation: 'FETCH' | 'INSERT' | 'UPDATE' | 'DELETE' | 'GRAPH_TRAVERSE' = 'FETCH';
-    let target = '';
-    let whereClause: Record<string, any> = {};
-    let computeClause: Record<string, ComputeExpression> = {};
-    let filterClause: Record<string, any> = {};
-    let sortClause: SortExpression | undefined;
-    let limitValue: number | undefined;
-
-    let currentSection: string | null = null;
-    let braceDepth = 0;
-    let sectionContent: string[] = [];
-
-    for (const line of lines) {
-      // Parse metadata
-      if (line.startsWith('@QUERY')) {
-        name = line.split(' ')[1];
-        continue;
-      }
-      if (line.startsWith('@INTENT')) {
-        intent = line.match(/"([^"]*)"/)?.[1] || '';
-        continue;
-      }
+    return this.lower(this.parseDocument(aiqString));
+  }
 
-      // Parse operation and target
-      if (line.match(/^(FETCH|INSERT|UPDATE|DELETE|GRAPH_TRAVERSE|GRAPH_QUERY)\s+\w+/)) {
-        const match = line.match(/^(\w+)\s+(\w+)/);
-        if (match) {
-          let op = match[1];
-          if (op === 'GRAPH_QUERY') op = 'GRAPH_TRAVERSE';
-          operation = op as any;
-          target = match[2];
-        }
-        continue;
-      }
+  /**
+   * Parse AIQ string to its syntax tree
+   */
+  parseDocument(aiqString: string): AIQDocument {
+    return new AIQParser(aiqString).parse();
+  }
 
-      // Track braces
-      if (line.includes('{')) braceDepth++;
-      if (line.includes('}')) {
-        braceDepth--;
-        if (braceDepth === 0 && currentSection) {
-          // Process section
-          this.processSection(
-            currentSection,
-            sectionContent,
-            whereClause,
-            computeClause,
-            filterClause
-          );
-          currentSection = null;
-          sectionContent = [];
-        }
-        continue;
-      }
+  /**
+   * Lower a syntax tree to the query object GraphMemDB executes
+   */
+  private lower(document: AIQDocument): AIQQuery {
+    const { statement } = document;
+    const header = { name: document.name || '', intent: document.intent || '' };
 
-      // Detect sections
-      if (line.startsWith('WHERE')) {
-        currentSection = 'WHERE';
-        continue;
-      }
-      if (line.startsWith('COMPUTE')) {
-        currentSection = 'COMPUTE';
-        continue;
-      }
-      if (line.startsWith('FILTER')) {
-        currentSection = 'FILTER';
-        continue;
-      }
-      if (line.startsWith('SORT BY')) {
-        const match = line.match(/SORT BY\s+(\w+)\s+(ASC|DESC)?/);
-        if (match) {
-          sortClause = {
-            field: match[1],
-            order: (match[2] as 'ASC' | 'DESC') || 'ASC'
-          };
-        }
-        continue;
-      }
-      if (line.startsWith('LIMIT')) {
-        const match = line.match(/LIMIT\s+(\d+)/);
-        if (match) {
-          limitValue = parseInt(match[1]);
+    if (statement.kind === 'CreateIndex') {
+      const { name, target, fields, unique } = statement;
+      return { ...header, operation: 'CREATE_INDEX', target, index: { name, type: target, fields, unique } };
+    }
+    if (statement.kind === 'DropIndex') {
+      return { ...header, operation: 'DROP_INDEX', target: statement.name };
+    }
+    if (statement.kind === 'Transaction') {
+      return {
+        ...header,
+        operation: 'TRANSACTION',
+        target: '',
+        statements: statement.statements.map(inner => this.lower({ ...document, statement: inner })),
+        rollback: !statement.commit || undefined
+      };
+    }
+
+    const query: AIQQuery = {
+      ...header,
+      operation: statement.kind === 'Match' ? 'MATCH' : statement.kind === 'Call' ? 'CALL' : statement.operation,
+      target: ''
+    };
+
+    let pattern: PathPattern | undefined;
+    if (statement.kind === 'Match') {
+      pattern = {
+        nodes: statement.pattern.nodes.map(({ alias, type }) => ({ alias, type })),
+        hops: statement.pattern.hops.map(({ relationship, direction }) => ({ relationship, direction }))
+      };
+      query.target = pattern.nodes[0].type || '';
+    } else {
+      query.target = statement.target || '';
+    }
+
+    let start: LiteralValue | undefined;
+    let to: LiteralValue | undefined;
+    let path: TraverseClause | undefined;
+    let depth: number | undefined;
+
+    for (const clause of statement.clauses) {
+      switch (clause.kind) {
+        case 'Block':
+          this.lowerBlock(query, clause);
+          break;
+        case 'Condition':
+          if (pattern) {
+            this.assignPatternConstraints(pattern, clause);
+          } else {
+            const key = clause.block === 'WHERE' ? 'where' : 'filter';
+            for (const condition of clause.conditions) {
+              query[key] = addCondition(query[key], this.conditionOf(condition));
+            }
+          }
+          break;
+        case 'Sort':
+          query.sort = { field: clause.field, order: clause.order };
+          break;
+        case 'Group':
+          query.groupBy = clause.fields;
+          break;
+        case 'Limit':
+          query.limit = clause.value;
+          break;
+        case 'Start':
+          start = clause.node;
+          break;
+        case 'To':
+          to = clause.node;
+          break;
+        case 'Traverse':
+          path = clause;
+          break;
+        case 'Depth':
+          depth = clause.value;
+          break;
+        case 'Similar': {
+          const { to: reference, text, vector, threshold } = clause;
+          query.similar = { to: reference, text, vector, threshold };
+          break;
         }
-        continue;
+        case 'Search':
+          query.search = { query: clause.query };
+          break;
+        case 'Cache':
+          query.cacheTtl = clause.ttl;
+          break;
+        case 'AsOf':
+          query.asOf = clause.timestamp;
+          break;
+        case 'After':
+          query.after = clause.cursor;
+          break;
+        case 'Return':
+          query.projection = lowerProjection(clause.fields);
+          break;
       }
+    }
 
-      // Collect section content
-      if (currentSection && braceDepth > 0) {
-        sectionContent.push(line);
-      }
+    if (statement.kind === 'Call') {
+      query.algorithm = {
+        name: statement.algorithm,
+        from: start?.value as string | number | undefined,
+        to: to?.value as string | number | undefined,
+        relationships: path?.relationships.length ? path.relationships : undefined,
+        direction: path?.direction
+      };
+    } else if (start) {
+      const relationships = path?.relationships || [];
+      query.traversal = {
+        start: start.value as string | number,
+        relationships,
+        direction: path?.direction || 'out',
+        maxDepth: depth ?? Math.max(relationships.length, 1)
+      };
     }
 
-    return {
-      name,
-      intent,
-      operation,
-      target,
-      where: Object.keys(whereClause).length > 0 ? whereClause : undefined,
-      compute: Object.keys(computeClause).length > 0 ? computeClause : undefined,
-      filter: Object.keys(filterClause).length > 0 ? filterClause : undefined,
-      sort: sortClause,
-      limit: limitValue
-    };
+    if (pattern) query.pattern = pattern;
+
+    return query;
   }
 
-  private processSection(
-    section: string,
-    content: string[],
-    whereClause: Record<string, any>,
-    computeClause: Record<string, ComputeExpression>,
-    filterClause: Record<string, any>
-  ): void {
-    for (const line of content) {
-      if (!line.includes(':')) continue;
-
-      const [key, ...valueParts] = line.split(':');
-      const value = valueParts.join(':').trim().replace(/,?\s*$/, '');
-
-      switch (section) {
-        case 'WHERE':
-          whereClause[key.trim()] = this.parseValue(value);
-          break;
+  private lowerBlock(query: AIQQuery, clause: BlockClause): void {
+    for (const entry of clause.entries) {
+      if (entry.operator !== '=') {
+        throw this.syntaxError(entry.position, `Comparison "${entry.operator}" is only allowed in WHERE and FILTER`, [':']);
+      }
 
+      switch (clause.block) {
         case 'COMPUTE':
-          computeClause[key.trim()] = this.parseComputeExpression(value);
+          if (entry.value.kind !== 'Call') {
+            throw this.syntaxError(entry.position, `Invalid compute expression: ${entry.value.raw}`, ['FUNCTION(field)']);
+          }
+          if (!AGGREGATES.includes(entry.value.name as ComputeExpression['function'])) {
+            throw this.syntaxError(entry.value.position, `Unknown aggregate ${entry.value.name}()`, AGGREGATES);
+          }
+          query.compute = {
+            ...query.compute,
+            [entry.key]: { function: entry.value.name as ComputeExpression['function'], field: entry.value.argument }
+          };
+          break;
+
+        case 'VALUES':
+          query.values = { ...query.values, [entry.key]: this.valueOf(entry.value) };
           break;
 
-        case 'FILTER':
-          filterClause[key.trim()] = this.parseFilterExpression(value);
+        case 'SET':
+          query.set = { ...query.set, [entry.key]: this.valueOf(entry.value) };
           break;
+
+        case 'LINK':
+        case 'UNLINK': {
+          // "HAS_ORDER: 101, 102" -> one edge per target
+          const targets = entry.value.kind === 'List' ? entry.value.items : [entry.value];
+          const edges: GraphEdge[] = targets.map(target => ({
+            relationship: entry.key,
+            target: this.valueOf(target)
+          }));
+          const key = clause.block === 'LINK' ? 'link' : 'unlink';
+          query[key] = [...(query[key] || []), ...edges];
+          break;
+        }
       }
     }
   }
 
-  private parseValue(value: string): any {
-    value = value.trim();
-
-    // Boolean
-    if (value === 'true') return true;
-    if (value === 'false') return false;
-
-    // Number
-    if (/^-?\d+(\.\d+)?$/.test(value)) {
-      return parseFloat(value);
-    }
+  /**
+   * MATCH constraints belong to the pattern node named by their alias; each
+   * line may only refer to one alias
+   */
+  private assignPatternConstraints(pattern: PathPattern, clause: ConditionClause): void {
+    const kind = clause.block === 'WHERE' ? 'where' : 'filter';
+
+    for (const condition of clause.conditions) {
+      const keys = conditionKeys(condition);
+      const aliases = new Set(keys.map(key => key.split('.')[0]));
+
+      for (const key of keys) {
+        const [alias, field] = key.split('.');
+        if (!field || !pattern.nodes.some(n => n.alias === alias)) {
+          throw this.syntaxError(
+            condition.position,
+            `MATCH constraint "${key}" must be prefixed with a pattern alias`,
+            pattern.nodes.map(n => `${n.alias}.${field || key}`)
+          );
+        }
+      }
+      if (aliases.size > 1) {
+        throw this.syntaxError(
+          condition.position,
+          `MATCH condition combines aliases ${Array.from(aliases).join(', ')}; write one line per alias`
+        );
+      }
 
-    // Date
-    if (/^\d{4}-\d{2}-\d{2}/.test(value)) {
-      return new Date(value);
+      const alias = Array.from(aliases)[0];
+      const node = pattern.nodes.find(n => n.alias === alias)!;
+      node[kind] = addCondition(node[kind], this.conditionOf(condition, key => key.slice(alias.length + 1)));
     }
-
-    // String (remove quotes)
-    return value.replace(/^["']|["']$/g, '');
   }
 
-  private parseComputeExpression(expr: string): ComputeExpression {
-    const match = expr.match(/(\w+)\(([^)]*)\)/);
-    if (!match) {
-      throw new Error(`Invalid compute expression: ${expr}`);
-    }
-
-    const func = match[1] as any;
-    const field = match[2].trim() || undefined;
+  /**
+   * Condition syntax tree -> Conditions object ({ key: value }, { key: { $gt: 5 } }, { $or: [...] })
+   */
+  private conditionOf(condition: ConditionNode, field: (key: string) => string = key => key): Conditions {
+    switch (condition.kind) {
+      case 'Comparison': {
+        const key = field(condition.key);
+        if (condition.operator === 'IN') {
+          const items = condition.value.kind === 'List' ? condition.value.items : [condition.value];
+          return { [key]: { $in: items.map(item => this.valueOf(item)) } };
+        }
 
-    return { function: func, field };
+        const value = this.valueOf(condition.value);
+        switch (condition.operator) {
+          case '=': return { [key]: value };
+          case '!=': return { [key]: { $ne: value } };
+          case '>': return { [key]: { $gt: value } };
+          case '>=': return { [key]: { $gte: value } };
+          case '<': return { [key]: { $lt: value } };
+          case '<=': return { [key]: { $lte: value } };
+          case 'LIKE': return { [key]: { $like: textOf(condition.value) } };
+          case 'CONTAINS': return { [key]: { $contains: value } };
+        }
+      }
+      case 'Between':
+        return {
+          [field(condition.key)]: { $gte: this.valueOf(condition.lower), $lte: this.valueOf(condition.upper) }
+        };
+      case 'Exists':
+        return { [field(condition.key)]: { $exists: condition.exists } };
+      case 'Not':
+        return { $not: this.conditionOf(condition.operand, field) };
+      case 'Logical': {
+        const operands = condition.operands.map(operand => this.conditionOf(operand, field));
+        if (condition.operator === 'OR') return { $or: operands };
+        return operands.reduce<Conditions>((all, operand) => addCondition(all, operand), {});
+      }
+    }
   }
 
-  private parseFilterExpression(expr: string): any {
-    // Handle comparison operators
-    const operators = ['>=', '<=', '>', '<', '!=', '='];
-
-    for (const op of operators) {
-      if (expr.includes(op)) {
-        const [, value] = expr.split(op).map(s => s.trim());
-        const parsedValue = this.parseValue(value);
-
-        switch (op) {
-          case '>': return { $gt: parsedValue };
-          case '>=': return { $gte: parsedValue };
-          case '<': return { $lt: parsedValue };
-          case '<=': return { $lte: parsedValue };
-          case '!=': return { $ne: parsedValue };
-          case '=': return parsedValue;
+  private valueOf(value: ValueNode): any {
+    switch (value.kind) {
+      case 'Literal':
+        return value.value;
+      case 'List': {
+        if (value.bracketed) return value.items.map(item => this.valueOf(item));
+        // A bare comma list outside LINK / UNLINK / IN is plain text, unless
+        // it holds a quoted string: 'title: "Desk", price: 300' is a mistake
+        const quoted = value.items.findIndex(item => item.kind === 'Literal' && item.quoted);
+        if (quoted !== -1) {
+          const extra = value.items[quoted === 0 ? 1 : quoted];
+          throw this.syntaxError(extra.position, 'Unexpected value after a quoted string; use [...] for a list', [
+            'end of line'
+          ]);
         }
+        return value.raw;
       }
+      case 'Call':
+        throw new AIQSyntaxError(
+          `Function ${value.name}() is only allowed in COMPUTE`,
+          value.position.line,
+          value.position.column
+        );
     }
+  }
 
-    return this.parseValue(expr);
+  private syntaxError(position: SourcePosition, message: string, expected: string[] = []): AIQSyntaxError {
+    return new AIQSyntaxError(message, position.line, position.column, expected);
   }
 
   /**
-   * Compile query to optimized execution plan
+   * Compile query to a cost-based execution plan over the database's index
+   * statistics; optimizations list the chosen operators, inputs first
    */
-  compile(query: AIQQuery): {
+  compile(query: AIQQuery, db: GraphMemDB): {
     query: AIQQuery;
+    plan: QueryPlan;
     optimizations: string[];
-    estimatedTime: number;
+    estimatedRows: number;
+    estimatedCost: number;
   } {
+    const plan = db.plan(query);
     const optimizations: string[] = [];
-    let estimatedTime = 10; // Base time in ms
-
-    // Optimization 1: Index detection
-    if (query.where) {
-      optimizations.push('Using property indexes for WHERE clause');
-      estimatedTime -= 5;
-    }
-
-    // Optimization 2: Compute aggregations
-    if (query.compute) {
-      optimizations.push('Aggregations computed in single pass');
-      estimatedTime += 2;
-    }
 
-    // Optimization 3: Early filtering
-    if (query.filter) {
-      optimizations.push('Applying filters after aggregation');
-      estimatedTime += 1;
+    for (let node: PlanNode | undefined = plan.root; node; node = 'input' in node ? node.input : undefined) {
+      optimizations.unshift(`${node.operator}: ${node.detail} (est. ${node.estimatedRows} rows)`);
     }
 
-    // Optimization 4: Limit pushdown
-    if (query.limit) {
-      optimizations.push('Limit applied early to reduce processing');
-      estimatedTime = Math.min(estimatedTime, query.limit * 0.1);
+    // Writes maintain indexes and invalidate dependent cache entries
+    if (plan.root.operator === 'Write') {
+      optimizations.push('Index maintenance and cache invalidation applied on write');
     }
 
     return {
       query,
+      plan,
       optimizations,
-      estimatedTime: Math.max(estimatedTime, 1)
+      estimatedRows: plan.estimatedRows,
+      estimatedCost: plan.estimatedCost
     };
   }
 
   /**
-   * Generate human-readable explanation
+   * Generate human-readable explanation (plus the executed plan when a
+   * database is given)
    */
-  explain(query: AIQQuery): string {
+  explain(query: AIQQuery, db?: GraphMemDB): string {
     let explanation = `Query: ${query.name}\n`;
     explanation += `Intent: ${query.intent}\n\n`;
     explanation += `Execution Plan:\n`;
-    explanation += `1. ${query.operation} from ${query.target}\n`;
+    if (query.operation === 'CREATE_INDEX') {
+      const { name, type, fields, unique } = query.index!;
+      explanation += `1. Create ${unique ? 'unique ' : ''}index ${name || '(default name)'} on ${type} (${fields.join(', ')})\n`;
+      return explanation;
+    }
+    if (query.operation === 'DROP_INDEX') {
+      explanation += `1. Drop index ${query.target}\n`;
+      return explanation;
+    }
+    if (query.operation === 'TRANSACTION') {
+      (query.statements || []).forEach((statement, i) => {
+        explanation += `${i + 1}. ${statement.operation} ${statement.target}\n`;
+      });
+      explanation += query.rollback ? 'Then roll back\n' : 'Then commit (all or nothing)\n';
+      return explanation;
+    }
+    if (query.operation === 'INSERT') {
+      explanation += `1. INSERT into ${query.target}: ${JSON.stringify(query.values || {})}\n`;
+    } else {
+      explanation += `1. ${query.operation} from ${query.target}\n`;
+    }
+
+    if (query.pattern) {
+      const { nodes, hops } = query.pattern;
+      const steps = nodes.map((node, i) => {
+        const hop = hops[i - 1];
+        let arrow = '';
+        if (hop) {
+          arrow = hop.direction === 'in' ? ` <-${hop.relationship}- ` : ` -${hop.relationship}-`;
+          if (hop.direction === 'out') arrow += '> ';
+          else if (hop.direction === 'both') arrow += ' ';
+        }
+        return `${arrow}${node.alias}:${node.type || '*'}`;
+      });
+      explanation += `   Pattern: ${steps.join('')}\n`;
+    }
+
+    if (query.algorithm) {
+      const { name, from, to, relationships, direction } = query.algorithm;
+      explanation += `   Algorithm: ${name}`;
+      if (from !== undefined) explanation += ` from ${from}`;
+      if (to !== undefined) explanation += ` to ${to}`;
+      explanation += ` via ${relationships?.join(', ') || 'all relationships'} (${direction || 'default direction'})\n`;
+    }
+
+    if (query.traversal) {
+      const { start, relationships, direction, maxDepth } = query.traversal;
+      explanation += `   Traverse from ${start} via ${relationships.join(', ') || '(none)'} (${direction}, depth ${maxDepth})\n`;
+    }
+
+    if (query.search) {
+      explanation += `   Full-text search: "${query.search.query}" (BM25)\n`;
+    }
+
+    if (query.similar) {
+      const { to, text, vector, threshold } = query.similar;
+      const reference = text !== undefined ? `"${text}"` : to !== undefined ? to : `[${vector?.join(', ')}]`;
+      explanation += `   Rank by similarity to ${reference}`;
+      if (threshold !== undefined) explanation += ` (threshold ${threshold})`;
+      explanation += '\n';
+    }
+
+    if (query.set) {
+      explanation += `   Set: ${JSON.stringify(query.set)}\n`;
+    }
+
+    if (query.link || query.unlink) {
+      explanation += `   Edges: ${JSON.stringify({ link: query.link, unlink: query.unlink })}\n`;
+    }
 
     if (query.where) {
       explanation += `2. Filter by: ${JSON.stringify(query.where, null, 2)}\n`;
     }
 
-    if (query.compute) {
-      explanation += `3. Compute: ${JSON.stringify(query.compute, null, 2)}\n`;
+    if (query.compute || query.groupBy) {
+      explanation += `3. Compute: ${JSON.stringify(query.compute || {}, null, 2)}\n`;
+      if (query.groupBy) {
+        explanation += `   Grouped by ${query.groupBy.join(', ')}\n`;
+      }
     }
 
     if (query.filter) {
@@ -288,10 +588,31 @@ export class AIQCompiler {
       explanation += `5. Sort by ${query.sort.field} ${query.sort.order}\n`;
     }
 
+    if (query.after) {
+      explanation += `   After cursor ${query.after}\n`;
+    }
+
     if (query.limit) {
       explanation += `6. Limit to ${query.limit} results\n`;
     }
 
+    if (query.projection) {
+      explanation += `7. Return: ${describeProjection(query.projection)}\n`;
+    }
+
+    if (query.cacheTtl !== undefined) {
+      explanation += query.cacheTtl === 0 ? 'Not cached\n' : `Cached for ${query.cacheTtl}ms\n`;
+    }
+
+    if (query.asOf !== undefined) {
+      explanation += `As of ${new Date(query.asOf).toISOString()}\n`;
+    }
+
+    // With a database, run the query and show estimated vs actual rows per operator
+    if (db) {
+      explanation += `\nPhysical Plan:\n${formatPlan(db.explain(query))}\n`;
+    }
+
     return explanation;
   }
 
@@ -337,3 +658,70 @@ FETCH data {
 }`;
   }
 }
+
+/**
+ * AND a condition into existing conditions: new fields are added, range
+ * operators on the same field merge ({ $gt: 5 } + { $lt: 10 }) and other
+ * repeated fields go to $and
+ */
+function addCondition(conditions: Conditions | undefined, condition: Conditions): Conditions {
+  const result: Conditions = { ...conditions };
+
+  for (const [key, value] of Object.entries<any>(condition)) {
+    const existing = result[key];
+    if (!(key in result)) {
+      result[key] = value;
+    } else if (key === '$and') {
+      result.$and = [...existing, ...value];
+    } else if (
+      isOperatorObject(existing) &&
+      isOperatorObject(value) &&
+      Object.keys(value).every(operator => !(operator in existing))
+    ) {
+      result[key] = { ...existing, ...value };
+    } else {
+      result.$and = [...(result.$and || []), { [key]: value }];
+    }
+  }
+
+  return result;
+}
+
+function lowerProjection(entries: ProjectionEntry[]): Projection {
+  const projection: Projection = {};
+  for (const entry of entries) {
+    projection[entry.key] = entry.fields ? { from: entry.field, fields: lowerProjection(entry.fields) } : entry.field;
+  }
+  return projection;
+}
+
+function describeProjection(projection: Projection): string {
+  return Object.entries(projection)
+    .map(([key, field]) => {
+      if (typeof field !== 'string') {
+        const source = field.from === key ? key : `${key}: ${field.from}`;
+        return `${source} { ${describeProjection(field.fields)} }`;
+      }
+      return field === key ? key : `${key}: ${field}`;
+    })
+    .join(', ');
+}
+
+function conditionKeys(condition: ConditionNode): string[] {
+  switch (condition.kind) {
+    case 'Logical':
+      return condition.operands.flatMap(conditionKeys);
+    case 'Not':
+      return conditionKeys(condition.operand);
+    default:
+      return [condition.key];
+  }
+}
+
+/**
+ * Source text of a value (quoted strings without their quotes), so that
+ * LIKE 2024% stays a pattern rather than being typed
+ */
+function textOf(value: ValueNode): string {
+  return value.kind === 'Literal' && typeof value.value === 'string' ? value.value : value.raw;
+}
@@ -0,0 +1,218 @@
+export type TokenType =
+  | 'identifier'
+  | 'number'
+  | 'string'
+  | 'date'
+  | 'directive'
+  | 'operator'
+  | 'arrow'
+  | 'punctuation'
+  | 'symbol'
+  | 'newline'
+  | 'eof';
+
+export interface Token {
+  type: TokenType;
+  /** Source text (strings: the unescaped contents) */
+  value: string;
+  line: number;
+  column: number;
+  /** Offsets into the source, end exclusive */
+  start: number;
+  end: number;
+}
+
+/**
+ * AIQ Syntax Error - Carries the 1-based line/column of the offending token
+ * and, where known, the tokens the parser expected instead
+ */
+export class AIQSyntaxError extends Error {
+  readonly line: number;
+  readonly column: number;
+  readonly expected: string[];
+  readonly found?: string;
+
+  constructor(message: string, line: number, column: number, expected: string[] = [], found?: string) {
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = 'AIQSyntaxError';
+    this.line = line;
+    this.column = column;
+    this.expected = expected;
+    this.found = found;
+  }
+
+  toJSON(): any {
+    return {
+      message: this.message,
+      line: this.line,
+      column: this.column,
+      expected: this.expected,
+      found: this.found
+    };
+  }
+}
+
+const DATE_PATTERN = /\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?/y;
+const NUMBER_PATTERN = /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const IDENTIFIER_PATTERN = /[\p{L}_][\p{L}\p{N}_]*/uy;
+
+const ARROWS = ['<->', '->', '<-', '↔', '→', '←'];
+const OPERATORS = ['>=', '<=', '!=', '==', '=', '>', '<'];
+const PUNCTUATION = '{}[]():,.*;-';
+
+/**
+ * AIQ Lexer - Splits AIQ source into tokens
+ *
+ * Newlines are significant (they end clauses and entries) and are emitted as
+ * tokens; other whitespace and line (//) or block comments are skipped.
+ * Characters with no meaning in the grammar become 'symbol' tokens so that
+ * unquoted values such as e-mail addresses still lex.
+ */
+export class AIQLexer {
+  private source: string;
+  private offset = 0;
+  private line = 1;
+  private lineStart = 0;
+  private tokens: Token[] = [];
+
+  constructor(source: string) {
+    this.source = source;
+  }
+
+  tokenize(): Token[] {
+    while (this.offset < this.source.length) {
+      const char = this.source[this.offset];
+
+      if (char === '\n') {
+        this.push('newline', '\n', this.offset, this.offset + 1);
+        this.line++;
+        this.lineStart = this.offset;
+        continue;
+      }
+      if (/\s/.test(char)) {
+        this.offset++;
+        continue;
+      }
+      if (this.source.startsWith('//', this.offset)) {
+        while (this.offset < this.source.length && this.source[this.offset] !== '\n') this.offset++;
+        continue;
+      }
+      if (this.source.startsWith('/*', this.offset)) {
+        this.skipBlockComment();
+        continue;
+      }
+
+      if (char === '"' || char === "'") {
+        this.readString(char);
+        continue;
+      }
+      if (char === '@' && this.matchAt(IDENTIFIER_PATTERN, this.offset + 1)) {
+        const name = this.matchAt(IDENTIFIER_PATTERN, this.offset + 1)!;
+        this.push('directive', '@' + name, this.offset, this.offset + 1 + name.length);
+        continue;
+      }
+      if (/\d/.test(char) || (char === '-' && this.startsNegativeNumber())) {
+        const date = this.matchAt(DATE_PATTERN, this.offset);
+        if (date) {
+          this.push('date', date, this.offset, this.offset + date.length);
+          continue;
+        }
+        const number = this.matchAt(NUMBER_PATTERN, this.offset)!;
+        this.push('number', number, this.offset, this.offset + number.length);
+        continue;
+      }
+
+      const identifier = this.matchAt(IDENTIFIER_PATTERN, this.offset);
+      if (identifier) {
+        this.push('identifier', identifier, this.offset, this.offset + identifier.length);
+        continue;
+      }
+
+      const arrow = ARROWS.find(candidate => this.source.startsWith(candidate, this.offset));
+      if (arrow) {
+        this.push('arrow', arrow, this.offset, this.offset + arrow.length);
+        continue;
+      }
+      const operator = OPERATORS.find(candidate => this.source.startsWith(candidate, this.offset));
+      if (operator) {
+        this.push('operator', operator === '==' ? '=' : operator, this.offset, this.offset + operator.length);
+        continue;
+      }
+
+      this.push(PUNCTUATION.includes(char) ? 'punctuation' : 'symbol', char, this.offset, this.offset + 1);
+    }
+
+    this.push('eof', '', this.offset, this.offset);
+    return this.tokens;
+  }
+
+  private push(type: TokenType, value: string, start: number, end: number): void {
+    this.tokens.push({
+      type,
+      value,
+      line: this.line,
+      column: start - this.lineStart + 1,
+      start,
+      end
+    });
+    this.offset = end;
+  }
+
+  private matchAt(pattern: RegExp, offset: number): string | null {
+    pattern.lastIndex = offset;
+    return pattern.exec(this.source)?.[0] ?? null;
+  }
+
+  /**
+   * "-5" is a number after an operator, colon or comma, but "-" after a
+   * name or value is a MATCH hop ("u -HAS_ORDER-> o") or part of a word
+   */
+  private startsNegativeNumber(): boolean {
+    if (!/\d/.test(this.source[this.offset + 1] || '')) return false;
+    const previous = this.tokens[this.tokens.length - 1];
+    const attached = previous !== undefined && previous.end === this.offset;
+    return !(attached && ['identifier', 'number', 'date'].includes(previous.type));
+  }
+
+  private readString(quote: string): void {
+    const start = this.offset;
+    const column = start - this.lineStart + 1;
+    let value = '';
+    let i = this.offset + 1;
+
+    while (i < this.source.length && this.source[i] !== quote) {
+      if (this.source[i] === '\n') break;
+      if (this.source[i] === '\\' && i + 1 < this.source.length) {
+        const escaped = this.source[i + 1];
+        value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+        i += 2;
+        continue;
+      }
+      value += this.source[i];
+      i++;
+    }
+
+    if (this.source[i] !== quote) {
+      throw new AIQSyntaxError('Unterminated string', this.line, column, [quote]);
+    }
+
+    this.push('string', value, start, i + 1);
+  }
+
+  private skipBlockComment(): void {
+    const line = this.line;
+    const column = this.offset - this.lineStart + 1;
+    const end = this.source.indexOf('*/', this.offset + 2);
+    if (end === -1) {
+      throw new AIQSyntaxError('Unterminated comment', line, column, ['*/']);
+    }
+
+    for (let i = this.offset; i < end; i++) {
+      if (this.source[i] === '\n') {
+        this.line++;
+        this.lineStart = i + 1;
+      }
+    }
+    this.offset = end + 2;
+  }
+}
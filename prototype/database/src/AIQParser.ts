@@ -0,0 +1,1043 @@
+import { AlgorithmCall, TraversalDirection } from '@aiws/shared';
+import { AIQLexer, AIQSyntaxError, Token, TokenType } from './AIQLexer';
+import {
+  AIQDocument,
+  StatementNode,
+  OperationKeyword,
+  PatternNodeAst,
+  ClauseNode,
+  EntryNode,
+  ComparisonOperator,
+  ConditionNode,
+  ValueNode,
+  LiteralValue,
+  ListValue,
+  ProjectionEntry,
+  SimilarClause,
+  SourcePosition
+} from './AIQAst';
+
+const OPERATIONS: Record<string, OperationKeyword> = {
+  FETCH: 'FETCH',
+  INSERT: 'INSERT',
+  UPDATE: 'UPDATE',
+  DELETE: 'DELETE',
+  GRAPH_TRAVERSE: 'GRAPH_TRAVERSE',
+  GRAPH_QUERY: 'GRAPH_TRAVERSE'
+};
+
+const ALGORITHMS: AlgorithmCall['name'][] = ['SHORTEST_PATH', 'PAGERANK', 'COMPONENTS', 'DEGREE'];
+
+const CLAUSES = ['WHERE', 'COMPUTE', 'FILTER', 'VALUES', 'SET', 'LINK', 'UNLINK', 'SORT BY', 'GROUP BY', 'LIMIT', 'START', 'TRAVERSE', 'DEPTH', 'TO', 'SIMILAR TO', 'NEAR', 'SEARCH', 'CACHE', 'AS OF', 'AFTER', 'RETURN'];
+
+/** Milliseconds per CACHE duration unit */
+const DURATION_UNITS: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+
+/**
+ * AIQ Parser - Recursive-descent parser from AIQ source to an AIQDocument
+ *
+ * Grammar (newlines end clauses and block entries):
+ *   document  := directive* (statement | transaction)
+ *   directive := "@QUERY" name | "@INTENT" string
+ *   transaction := "BEGIN" statement* ("COMMIT" | "ROLLBACK")
+ *   statement := OPERATION target? body
+ *              | "MATCH" pattern body
+ *              | "CALL" ALGORITHM target? body
+ *              | "CREATE" "UNIQUE"? "INDEX" name? "ON" type "(" field ("," field)* ")"
+ *              | "DROP" "INDEX" name
+ *   body      := "{" clause* "}" | clause*
+ *   clause    := BLOCK "{" entry* "}" | ("WHERE" | "FILTER") "{" or* "}"
+ *              | "SORT BY" field order? | "GROUP BY" field ("," field)* | "LIMIT" n
+ *              | "START" ref | "TO" ref | "TRAVERSE" path | "DEPTH" n
+ *              | "SIMILAR TO" (ref | string | vector) ("THRESHOLD" n)?
+ *              | "NEAR" vector ("THRESHOLD" n)? | "SEARCH" string
+ *              | "CACHE" (n unit? | "OFF")
+ *              | "AS OF" (date | epoch_ms | n unit "AGO") | "AFTER" cursor
+ *              | "RETURN" projection
+ *   entry     := key ":"? operator? value
+ *   projection := "{" (item ("," | newline))* "}"
+ *   item      := key (":" field)? projection? | key ":" projection
+ *   or        := and ("OR" and)*
+ *   and       := not ("AND" not)*
+ *   not       := "NOT" not | "(" or* ")" | "EXISTS" key | predicate
+ *   predicate := key ":"? operator? value | key "IS" "NOT"? "NULL"
+ *              | key "NOT"? ("IN" list | "BETWEEN" value "AND" value | "LIKE" value | "CONTAINS" value)
+ *
+ * Statements inside BEGIN ... COMMIT need braced bodies.
+ *
+ * Unquoted values run to the end of the line, so "name: Alice Smith" needs
+ * no quotes; quote values that contain "//" or should not be typed. In
+ * conditions a value also ends at AND / OR and at the ")" closing a group.
+ */
+export class AIQParser {
+  private source: string;
+  private tokens: Token[];
+  private index = 0;
+  /** Open parentheses in the current condition */
+  private groupDepth = 0;
+  /** Inside BEGIN ... COMMIT */
+  private inTransaction = false;
+
+  constructor(source: string) {
+    this.source = source;
+    this.tokens = new AIQLexer(source).tokenize();
+  }
+
+  parse(): AIQDocument {
+    this.skipNewlines();
+    const document: AIQDocument = {
+      kind: 'Document',
+      statement: undefined as unknown as StatementNode,
+      position: this.position(this.peek())
+    };
+
+    while (this.peek().type === 'directive') {
+      const directive = this.next();
+      if (directive.value === '@QUERY') {
+        document.name = this.expect('identifier', undefined, 'query name').value;
+      } else if (directive.value === '@INTENT') {
+        const intent = this.accept('string');
+        document.intent = intent ? intent.value : this.restOfLine();
+      } else {
+        throw this.error(directive, 'Expected a directive', ['@QUERY', '@INTENT']);
+      }
+      this.endOfClause();
+      this.skipNewlines();
+    }
+
+    document.statement = this.check('identifier', 'BEGIN') ? this.parseTransaction() : this.parseStatement();
+    this.skipNewlines();
+    this.expect('eof', undefined, 'end of query');
+    return document;
+  }
+
+  private parseTransaction(): StatementNode {
+    const position = this.position(this.next());
+    this.endOfClause();
+    this.inTransaction = true;
+
+    const statements: StatementNode[] = [];
+    for (;;) {
+      this.skipNewlines();
+      if (this.check('identifier', 'COMMIT') || this.check('identifier', 'ROLLBACK')) break;
+      if (this.check('eof')) {
+        throw this.error(this.peek(), 'Unterminated transaction', ['COMMIT', 'ROLLBACK']);
+      }
+      statements.push(this.parseStatement());
+      this.endOfClause();
+    }
+
+    const commit = this.next().value === 'COMMIT';
+    this.inTransaction = false;
+    return { kind: 'Transaction', statements, commit, position };
+  }
+
+  private parseStatement(): StatementNode {
+    const token = this.peek();
+    const position = this.position(token);
+    const operations = [...Object.keys(OPERATIONS), 'MATCH', 'CALL', 'CREATE', 'DROP'];
+
+    if (token.type !== 'identifier' || !operations.includes(token.value)) {
+      throw this.error(token, 'Expected a query operation', this.inTransaction ? operations : [...operations, 'BEGIN']);
+    }
+    this.next();
+
+    if (token.value === 'MATCH') {
+      const pattern = this.parsePattern();
+      return { kind: 'Match', pattern, clauses: this.parseBody(), position };
+    }
+
+    if (token.value === 'CREATE') {
+      const unique = this.accept('identifier', 'UNIQUE') !== null;
+      this.expect('identifier', 'INDEX');
+      const name = this.check('identifier', 'ON') ? undefined : this.expect('identifier', undefined, 'index name').value;
+      this.expect('identifier', 'ON');
+      const target = this.expect('identifier', undefined, 'node type').value;
+
+      this.expect('punctuation', '(');
+      const fields = [this.expect('identifier', undefined, 'field name').value];
+      while (this.accept('punctuation', ',')) {
+        fields.push(this.expect('identifier', undefined, 'field name').value);
+      }
+      this.expect('punctuation', ')');
+      return { kind: 'CreateIndex', name, target, fields, unique, position };
+    }
+
+    if (token.value === 'DROP') {
+      this.expect('identifier', 'INDEX');
+      return { kind: 'DropIndex', name: this.expect('identifier', undefined, 'index name').value, position };
+    }
+
+    if (token.value === 'CALL') {
+      const algorithm = this.peek();
+      if (algorithm.type !== 'identifier' || !isAlgorithm(algorithm.value)) {
+        throw this.error(algorithm, 'Expected an algorithm', ALGORITHMS);
+      }
+      this.next();
+      const target = this.accept('identifier')?.value;
+      return {
+        kind: 'Call',
+        algorithm: algorithm.value,
+        target,
+        clauses: this.parseBody(),
+        position
+      };
+    }
+
+    const target = this.accept('identifier')?.value;
+    return {
+      kind: 'Operation',
+      operation: OPERATIONS[token.value],
+      target,
+      clauses: this.parseBody(),
+      position
+    };
+  }
+
+  /**
+   * "u:user -HAS_ORDER-> o:order <-REVIEWED- p"
+   *
+   * -REL-> follows an outgoing edge, <-REL- an incoming one, -REL- either.
+   * A bare name is used as both alias and type.
+   */
+  private parsePattern(): PatternNodeAst {
+    const position = this.position(this.peek());
+    const pattern: PatternNodeAst = { kind: 'Pattern', nodes: [this.parsePatternNode()], hops: [], position };
+
+    while (this.check('punctuation', '-') || this.check('arrow', '<-')) {
+      const hopToken = this.next();
+      const incoming = hopToken.value === '<-';
+      const bracketed = this.accept('punctuation', '[');
+      const relationship = this.expect('identifier', undefined, 'relationship').value;
+      if (bracketed) this.expect('punctuation', ']');
+
+      let direction: TraversalDirection;
+      if (incoming) {
+        if (this.check('arrow', '->')) {
+          throw this.error(this.peek(), 'Invalid MATCH hop: use -REL- for either direction', ['-']);
+        }
+        this.expect('punctuation', '-');
+        direction = 'in';
+      } else if (this.accept('arrow', '->')) {
+        direction = 'out';
+      } else {
+        this.expect('punctuation', '-', '"->" or "-"');
+        direction = 'both';
+      }
+
+      pattern.hops.push({ relationship, direction, position: this.position(hopToken) });
+      pattern.nodes.push(this.parsePatternNode());
+    }
+
+    return pattern;
+  }
+
+  private parsePatternNode(): PatternNodeAst['nodes'][number] {
+    const parenthesized = this.accept('punctuation', '(');
+    const aliasToken = this.expect('identifier', undefined, 'pattern node (alias:type)');
+    let type: string | undefined = aliasToken.value;
+
+    if (this.accept('punctuation', ':')) {
+      type = this.accept('identifier')?.value;
+    }
+    if (parenthesized) this.expect('punctuation', ')');
+
+    return { alias: aliasToken.value, type, position: this.position(aliasToken) };
+  }
+
+  private parseBody(): ClauseNode[] {
+    this.skipNewlines();
+    if (this.inTransaction) {
+      this.expect('punctuation', '{');
+    } else if (!this.accept('punctuation', '{')) {
+      return this.parseClauses(false);
+    }
+
+    const clauses = this.parseClauses(true);
+    this.expect('punctuation', '}');
+    return clauses;
+  }
+
+  private parseClauses(braced: boolean): ClauseNode[] {
+    const clauses: ClauseNode[] = [];
+
+    for (;;) {
+      this.skipNewlines();
+      if (this.check('eof') || (braced && this.check('punctuation', '}'))) break;
+      clauses.push(this.parseClause());
+    }
+
+    return clauses;
+  }
+
+  private parseClause(): ClauseNode {
+    const token = this.peek();
+    const position = this.position(token);
+    if (token.type !== 'identifier') {
+      throw this.error(token, 'Expected a clause', CLAUSES);
+    }
+
+    let clause: ClauseNode;
+    switch (token.value) {
+      case 'WHERE':
+      case 'FILTER':
+        this.next();
+        clause = { kind: 'Condition', block: token.value, conditions: this.parseConditionBlock(), position };
+        break;
+
+      case 'COMPUTE':
+      case 'VALUES':
+      case 'SET':
+      case 'LINK':
+      case 'UNLINK':
+        this.next();
+        clause = { kind: 'Block', block: token.value, entries: this.parseBlock(), position };
+        break;
+
+      case 'SORT': {
+        this.next();
+        this.expect('identifier', 'BY');
+        const field = this.parseField();
+        const order = this.accept('identifier', 'ASC') || this.accept('identifier', 'DESC');
+        clause = { kind: 'Sort', field, order: (order?.value as 'ASC' | 'DESC') || 'ASC', position };
+        break;
+      }
+
+      case 'GROUP': {
+        this.next();
+        this.expect('identifier', 'BY');
+        const fields = [this.parseField()];
+        while (this.accept('punctuation', ',')) {
+          fields.push(this.parseField());
+        }
+        clause = { kind: 'Group', fields, position };
+        break;
+      }
+
+      case 'LIMIT':
+        this.next();
+        clause = { kind: 'Limit', value: this.parseInteger(), position };
+        break;
+
+      case 'DEPTH':
+        this.next();
+        clause = { kind: 'Depth', value: this.parseInteger(), position };
+        break;
+
+      case 'START':
+        this.next();
+        clause = { kind: 'Start', node: this.parseReference(), position };
+        break;
+
+      case 'TO':
+        this.next();
+        clause = { kind: 'To', node: this.parseReference(), position };
+        break;
+
+      case 'TRAVERSE':
+        this.next();
+        clause = { kind: 'Traverse', ...this.parseTraversalPath(), position };
+        break;
+
+      case 'SIMILAR':
+        this.next();
+        this.expect('identifier', 'TO');
+        clause = this.parseSimilarity(position, true);
+        break;
+
+      case 'NEAR':
+        this.next();
+        clause = this.parseSimilarity(position, false);
+        break;
+
+      case 'SEARCH':
+        this.next();
+        clause = { kind: 'Search', query: this.expect('string', undefined, 'quoted search terms').value, position };
+        break;
+
+      case 'CACHE':
+        this.next();
+        clause = { kind: 'Cache', ttl: this.accept('identifier', 'OFF') ? 0 : this.parseDuration(), position };
+        break;
+
+      case 'AS':
+        this.next();
+        this.expect('identifier', 'OF');
+        clause = { kind: 'AsOf', timestamp: this.parseTimestamp(), position };
+        break;
+
+      case 'AFTER':
+        this.next();
+        clause = { kind: 'After', cursor: this.parseCursor(), position };
+        break;
+
+      case 'RETURN':
+        this.next();
+        clause = { kind: 'Return', fields: this.parseProjection(), position };
+        break;
+
+      default:
+        throw this.error(token, 'Expected a clause', CLAUSES);
+    }
+
+    this.endOfClause();
+    return clause;
+  }
+
+  private parseBlock(): EntryNode[] {
+    this.skipNewlines();
+    this.expect('punctuation', '{');
+    const entries: EntryNode[] = [];
+
+    for (;;) {
+      this.skipNewlines();
+      if (this.accept('punctuation', '}')) break;
+      if (this.check('eof')) {
+        throw this.error(this.peek(), 'Unclosed block', ['}']);
+      }
+      entries.push(this.parseEntry());
+    }
+
+    return entries;
+  }
+
+  /**
+   * RETURN fields, one per line or separated by commas; a dotted field is
+   * returned under its last segment unless renamed
+   */
+  private parseProjection(): ProjectionEntry[] {
+    this.skipNewlines();
+    const open = this.expect('punctuation', '{');
+    const entries: ProjectionEntry[] = [];
+
+    for (;;) {
+      this.skipNewlines();
+      if (this.accept('punctuation', '}')) break;
+      if (this.check('eof')) {
+        throw this.error(this.peek(), 'Unclosed block', ['}']);
+      }
+
+      const token = this.peek();
+      const name = this.check('string') ? this.next().value : this.parseField('field to return');
+      const renamed = this.accept('punctuation', ':') && !this.check('punctuation', '{');
+      const field = renamed ? this.parseField('field to return') : name;
+      const key = renamed || !name.includes('.') ? name : name.slice(name.lastIndexOf('.') + 1);
+      const fields = this.check('punctuation', '{') ? this.parseProjection() : undefined;
+
+      if (entries.some(entry => entry.key === key)) {
+        throw this.error(token, `Duplicate key "${key}" in RETURN`, ['a new key']);
+      }
+      entries.push({ kind: 'Projection', key, field, fields, position: this.position(token) });
+
+      if (!this.accept('punctuation', ',') && !this.check('punctuation', '}') && !this.check('newline')) {
+        throw this.error(this.peek(), 'Expected "," or end of line', [',', 'end of line', '}']);
+      }
+    }
+
+    if (entries.length === 0) {
+      throw this.error(open, 'Expected a field to return', ['field']);
+    }
+    return entries;
+  }
+
+  private parseConditionBlock(): ConditionNode[] {
+    this.skipNewlines();
+    this.expect('punctuation', '{');
+    const conditions: ConditionNode[] = [];
+
+    for (;;) {
+      this.skipNewlines();
+      if (this.accept('punctuation', '}')) break;
+      if (this.check('eof')) {
+        throw this.error(this.peek(), 'Unclosed block', ['}']);
+      }
+      conditions.push(this.parseOr());
+      if (!this.accept('newline') && !this.check('punctuation', '}')) {
+        throw this.error(this.peek(), 'Expected end of condition', ['AND', 'OR', 'end of line']);
+      }
+    }
+
+    return conditions;
+  }
+
+  private parseOr(): ConditionNode {
+    return this.parseLogical('OR', () => this.parseAnd());
+  }
+
+  private parseAnd(): ConditionNode {
+    return this.parseLogical('AND', () => this.parseNot());
+  }
+
+  private parseLogical(operator: 'AND' | 'OR', operand: () => ConditionNode): ConditionNode {
+    const position = this.position(this.peek());
+    const operands = [operand()];
+
+    while (this.acceptConnective(operator)) {
+      this.skipNewlines();
+      operands.push(operand());
+    }
+
+    return operands.length === 1 ? operands[0] : { kind: 'Logical', operator, operands, position };
+  }
+
+  private parseNot(): ConditionNode {
+    const token = this.peek();
+    const position = this.position(token);
+
+    if (this.accept('identifier', 'NOT')) {
+      return { kind: 'Not', operand: this.parseNot(), position };
+    }
+
+    if (this.accept('punctuation', '(')) {
+      // Lines inside a group are ANDed, like the lines of the block
+      this.groupDepth++;
+      this.skipNewlines();
+      const operands = [this.parseOr()];
+      for (;;) {
+        this.skipNewlines();
+        if (this.accept('punctuation', ')')) break;
+        if (this.check('eof') || this.check('punctuation', '}')) {
+          throw this.error(this.peek(), 'Unclosed group', [')']);
+        }
+        operands.push(this.parseOr());
+      }
+      this.groupDepth--;
+      return operands.length === 1 ? operands[0] : { kind: 'Logical', operator: 'AND', operands, position };
+    }
+
+    if (this.accept('identifier', 'EXISTS')) {
+      return { kind: 'Exists', key: this.parseKey(), exists: true, position };
+    }
+
+    return this.parsePredicate();
+  }
+
+  private parsePredicate(): ConditionNode {
+    const keyToken = this.peek();
+    const position = this.position(keyToken);
+    const key = this.parseKey();
+
+    if (this.accept('identifier', 'IS')) {
+      const negated = this.accept('identifier', 'NOT');
+      this.expect('identifier', 'NULL');
+      return { kind: 'Exists', key, exists: negated !== null, position };
+    }
+
+    const negated = this.check('identifier', 'NOT') && this.peek(1).type === 'identifier';
+    if (negated) this.next();
+
+    let predicate: ConditionNode | undefined;
+    if (this.accept('identifier', 'IN')) {
+      const list = this.check('punctuation', '[') ? this.parseBracketedList() : this.parseConditionValue();
+      predicate = { kind: 'Comparison', key, operator: 'IN', value: list, position };
+    } else if (this.accept('identifier', 'BETWEEN')) {
+      const lower = this.parseConditionValue();
+      this.expect('identifier', 'AND');
+      predicate = { kind: 'Between', key, lower, upper: this.parseConditionValue(), position };
+    } else if (this.check('identifier', 'LIKE') || this.check('identifier', 'CONTAINS')) {
+      const operator = this.next().value as 'LIKE' | 'CONTAINS';
+      predicate = { kind: 'Comparison', key, operator, value: this.parseConditionValue(), position };
+    } else if (negated) {
+      throw this.error(this.peek(), `Expected IN, BETWEEN, LIKE or CONTAINS after "${key} NOT"`, [
+        'IN',
+        'BETWEEN',
+        'LIKE',
+        'CONTAINS'
+      ]);
+    }
+
+    if (predicate) {
+      return negated ? { kind: 'Not', operand: predicate, position } : predicate;
+    }
+
+    const colon = this.accept('punctuation', ':');
+    const operator = this.accept('operator');
+    if (!colon && !operator) {
+      throw this.error(this.peek(), `Expected ":" or a comparison after "${key}"`, [
+        ':',
+        '>',
+        '>=',
+        '<',
+        '<=',
+        '!=',
+        '=',
+        'IN',
+        'BETWEEN',
+        'LIKE',
+        'CONTAINS',
+        'IS'
+      ]);
+    }
+
+    return {
+      kind: 'Comparison',
+      key,
+      operator: (operator?.value as ComparisonOperator) || '=',
+      value:
+        operator && operator.value !== '='
+          ? this.parseOperand(operator, () => this.atConditionValueEnd())
+          : this.parseConditionValue(),
+      position
+    };
+  }
+
+  /**
+   * AND / OR continue a condition; inside a group they may start the next line
+   */
+  private acceptConnective(word: 'AND' | 'OR'): boolean {
+    let offset = 0;
+    if (this.groupDepth > 0) {
+      while (this.peek(offset).type === 'newline') offset++;
+    }
+    const token = this.peek(offset);
+    if (token.type !== 'identifier' || token.value !== word) return false;
+
+    this.index += offset;
+    this.next();
+    return true;
+  }
+
+  private parseConditionValue(): ValueNode {
+    return this.parseValue(() => this.atConditionValueEnd());
+  }
+
+  private atConditionValueEnd(): boolean {
+    return (
+      this.atValueEnd() ||
+      this.check('identifier', 'AND') ||
+      this.check('identifier', 'OR') ||
+      (this.groupDepth > 0 && this.check('punctuation', ')'))
+    );
+  }
+
+  private parseKey(): string {
+    return this.check('string') ? this.next().value : this.parseField('property name');
+  }
+
+  private parseEntry(): EntryNode {
+    const keyToken = this.peek();
+    const key = this.parseKey();
+
+    const colon = this.accept('punctuation', ':');
+    const operator = this.accept('operator');
+    if (!colon && !operator) {
+      throw this.error(this.peek(), `Expected ":" or a comparison after "${key}"`, [':', '>', '>=', '<', '<=', '!=', '=']);
+    }
+
+    const value = operator && operator.value !== '=' ? this.parseOperand(operator) : this.parseValue();
+    if (this.check('newline')) this.next();
+
+    return {
+      kind: 'Entry',
+      key,
+      operator: (operator?.value as ComparisonOperator) || '=',
+      value,
+      position: this.position(keyToken)
+    };
+  }
+
+  /**
+   * A value runs to the end of the line (or the closing brace, or where
+   * atEnd says, e.g. before AND / OR in a condition). Top-level
+   * commas make a bare list; NAME(...) is a function call.
+   */
+  private parseValue(atEnd: () => boolean = () => this.atValueEnd()): ValueNode {
+    const first = this.peek();
+    if (atEnd()) {
+      throw this.error(first, 'Expected a value');
+    }
+
+    if (first.type === 'punctuation' && first.value === '[') {
+      const list = this.parseBracketedList();
+      if (!atEnd()) {
+        throw this.error(this.peek(), 'Unexpected token after list', ['end of line']);
+      }
+      return list;
+    }
+
+    if (first.type === 'identifier' && this.peek(1).value === '(' && this.peek(1).start === first.end) {
+      this.next();
+      this.next();
+      const argumentTokens: Token[] = [];
+      while (!this.check('punctuation', ')')) {
+        if (this.atValueEnd()) {
+          throw this.error(this.peek(), `Unclosed call to ${first.value}`, [')']);
+        }
+        argumentTokens.push(this.next());
+      }
+      const close = this.next();
+      return {
+        kind: 'Call',
+        name: first.value,
+        argument: argumentTokens.length > 0 ? this.sliceTokens(argumentTokens) : undefined,
+        raw: this.source.slice(first.start, close.end),
+        position: this.position(first)
+      };
+    }
+
+    const segments: Token[][] = [[]];
+    while (!atEnd()) {
+      const token = this.next();
+      if (token.type === 'punctuation' && token.value === ',') {
+        segments.push([]);
+      } else {
+        segments[segments.length - 1].push(token);
+      }
+    }
+
+    const items = segments.filter(segment => segment.length > 0);
+    if (items.length === 1) {
+      return this.literal(items[0]);
+    }
+
+    const last = items[items.length - 1];
+    return {
+      kind: 'List',
+      items: items.map(segment => this.literal(segment)),
+      bracketed: false,
+      raw: this.source.slice(first.start, last[last.length - 1].end),
+      position: this.position(first)
+    };
+  }
+
+  /**
+   * The value of >, >=, <, <= or !=: a single literal (one quoted string,
+   * or one word such as 5, 2024-01-01 or alice@example.com), so that
+   * "total >= 5, total <= 10" is not read as one bound
+   */
+  private parseOperand(operator: Token, atEnd: () => boolean = () => this.atValueEnd()): LiteralValue {
+    if (atEnd()) {
+      throw this.error(this.peek(), 'Expected a value');
+    }
+
+    const tokens = [this.next()];
+    while (
+      tokens[0].type !== 'string' &&
+      this.peek().start === tokens[tokens.length - 1].end &&
+      !atEnd() &&
+      !this.check('punctuation', ',')
+    ) {
+      tokens.push(this.next());
+    }
+    if (!atEnd()) {
+      throw this.error(
+        this.peek(),
+        `"${operator.value}" takes a single value; use BETWEEN or put the next condition on its own line`,
+        ['end of line']
+      );
+    }
+    return this.literal(tokens);
+  }
+
+  private parseBracketedList(): ListValue {
+    const open = this.expect('punctuation', '[');
+    const items: ValueNode[] = [];
+    let current: Token[] = [];
+
+    const flush = () => {
+      if (current.length > 0) items.push(this.literal(current));
+      current = [];
+    };
+
+    for (;;) {
+      const token = this.peek();
+      if (token.type === 'eof') {
+        throw this.error(token, 'Unclosed list', [']']);
+      }
+      if (token.type === 'newline') {
+        this.next();
+        continue;
+      }
+      if (token.type === 'punctuation' && token.value === '[') {
+        flush();
+        items.push(this.parseBracketedList());
+        continue;
+      }
+
+      this.next();
+      if (token.type === 'punctuation' && token.value === ']') {
+        flush();
+        return {
+          kind: 'List',
+          items,
+          bracketed: true,
+          raw: this.source.slice(open.start, token.end),
+          position: this.position(open)
+        };
+      }
+      if (token.type === 'punctuation' && token.value === ',') {
+        flush();
+      } else {
+        current.push(token);
+      }
+    }
+  }
+
+  /**
+   * "product:201" or "201" up to the end of the clause
+   */
+  private parseReference(): LiteralValue {
+    const tokens: Token[] = [];
+    while (!this.atValueEnd()) {
+      tokens.push(this.next());
+    }
+    if (tokens.length === 0) {
+      throw this.error(this.peek(), 'Expected a node reference', ['type:id', 'id']);
+    }
+    return this.literal(tokens);
+  }
+
+  /**
+   * "<- CONTAINS <- HAS_ORDER" -> relationships + a single direction
+   */
+  private parseTraversalPath(): { relationships: string[]; direction: TraversalDirection } {
+    const relationships: string[] = [];
+    let direction: TraversalDirection | undefined;
+
+    while (!this.atValueEnd()) {
+      const token = this.next();
+
+      if (token.type === 'arrow') {
+        const arrowDirection: TraversalDirection =
+          token.value === '<->' || token.value === '↔' ? 'both' : token.value === '->' || token.value === '→' ? 'out' : 'in';
+        if (direction && direction !== arrowDirection) {
+          throw this.error(token, 'Mixed traversal directions; use <-> to follow edges both ways', [
+            this.arrowFor(direction)
+          ]);
+        }
+        direction = arrowDirection;
+      } else if (token.type === 'identifier') {
+        relationships.push(token.value);
+      } else if (!(token.type === 'punctuation' && token.value === ',')) {
+        throw this.error(token, 'Expected a relationship or arrow', ['relationship', '->', '<-', '<->']);
+      }
+    }
+
+    return { relationships, direction: direction || 'out' };
+  }
+
+  private parseSimilarity(position: SourcePosition, allowReference: boolean): SimilarClause {
+    const clause: SimilarClause = { kind: 'Similar', position };
+    const token = this.peek();
+
+    if (token.type === 'punctuation' && token.value === '[') {
+      const list = this.parseBracketedList();
+      clause.vector = list.items.map(item => {
+        if (item.kind !== 'Literal' || typeof item.value !== 'number') {
+          throw new AIQSyntaxError('Vector components must be numbers', item.position.line, item.position.column, [
+            'number'
+          ]);
+        }
+        return item.value;
+      });
+    } else if (!allowReference) {
+      throw this.error(token, 'NEAR expects a vector', ['[']);
+    } else if (token.type === 'string') {
+      clause.text = this.next().value;
+    } else {
+      const tokens: Token[] = [];
+      while (!this.atValueEnd() && !this.check('identifier', 'THRESHOLD')) {
+        tokens.push(this.next());
+      }
+      if (tokens.length === 0) {
+        throw this.error(this.peek(), 'Expected a node reference, text or vector', ['type:id', '"text"', '[']);
+      }
+      clause.to = this.literal(tokens).value as string | number;
+    }
+
+    if (this.accept('identifier', 'THRESHOLD')) {
+      clause.threshold = Number(this.expect('number', undefined, 'threshold').value);
+    }
+
+    return clause;
+  }
+
+  private parseField(description = 'field name'): string {
+    let field = this.expect('identifier', undefined, description).value;
+    while (this.accept('punctuation', '.')) {
+      field += '.' + this.expect('identifier', undefined, description).value;
+    }
+    return field;
+  }
+
+  private parseInteger(): number {
+    const token = this.expect('number', undefined, 'integer');
+    if (!/^\d+$/.test(token.value)) {
+      throw this.error(token, 'Expected a non-negative integer', ['integer']);
+    }
+    return parseInt(token.value, 10);
+  }
+
+  /**
+   * "30s", "500ms", "5m", "1h" or a bare number of seconds, in milliseconds
+   */
+  private parseDuration(): number {
+    const amount = this.expect('number', undefined, 'duration');
+    if (!/^\d+(?:\.\d+)?$/.test(amount.value)) {
+      throw this.error(amount, 'Expected a non-negative duration', ['duration']);
+    }
+
+    let scale = DURATION_UNITS.s;
+    const unit = this.peek();
+    if (unit.type === 'identifier' && unit.start === amount.end) {
+      if (!(unit.value in DURATION_UNITS)) {
+        throw this.error(unit, 'Expected a duration unit', Object.keys(DURATION_UNITS));
+      }
+      scale = DURATION_UNITS[unit.value];
+      this.next();
+    }
+    return Math.round(parseFloat(amount.value) * scale);
+  }
+
+  /**
+   * An ISO date (quoted or not), epoch milliseconds or "<duration> AGO",
+   * in epoch milliseconds
+   */
+  private parseTimestamp(): number {
+    const first = this.peek();
+    const afterAmount = this.peek(1).type === 'identifier' && this.peek(1).start === first.end ? 2 : 1;
+    if (first.type === 'number' && this.peek(afterAmount).value === 'AGO') {
+      const ago = this.parseDuration();
+      this.expect('identifier', 'AGO');
+      return Date.now() - ago;
+    }
+
+    const value = this.parseValue();
+    const literal = value.kind === 'Literal' ? value.value : undefined;
+    const timestamp =
+      literal instanceof Date ? literal.getTime() : typeof literal === 'number' ? literal : Date.parse(String(literal));
+    if (!Number.isFinite(timestamp)) {
+      throw this.error(first, 'Expected a timestamp', ['ISO date', 'epoch milliseconds', 'duration AGO']);
+    }
+    return timestamp;
+  }
+
+  /**
+   * Page cursor, quoted or as the rest of the line
+   */
+  private parseCursor(): string {
+    const token = this.peek();
+    const cursor = token.type === 'string' ? this.next().value : this.restOfLine();
+    if (!cursor) {
+      throw this.error(token, 'Expected a cursor', ['cursor']);
+    }
+    return cursor;
+  }
+
+  /**
+   * Typed value of a run of tokens: a single quoted string stays a string,
+   * anything else is typed from its source text (boolean, number, date)
+   */
+  private literal(tokens: Token[]): LiteralValue {
+    const quote = tokens.findIndex(token => token.type === 'string');
+    if (quote !== -1 && tokens.length > 1) {
+      // '"Desk" price' is neither the string nor plain text
+      throw this.error(tokens[quote === 0 ? 1 : quote], 'Unexpected token next to a quoted string', ['end of line']);
+    }
+
+    const raw = this.sliceTokens(tokens);
+    if (quote === 0) {
+      return { kind: 'Literal', value: tokens[0].value, raw, quoted: true, position: this.position(tokens[0]) };
+    }
+    return { kind: 'Literal', value: typedValue(raw), raw, position: this.position(tokens[0]) };
+  }
+
+  private sliceTokens(tokens: Token[]): string {
+    return this.source.slice(tokens[0].start, tokens[tokens.length - 1].end).trim();
+  }
+
+  private restOfLine(): string {
+    const tokens: Token[] = [];
+    while (!this.atValueEnd()) tokens.push(this.next());
+    return tokens.length > 0 ? this.sliceTokens(tokens) : '';
+  }
+
+  private arrowFor(direction: TraversalDirection): string {
+    return direction === 'both' ? '<->' : direction === 'out' ? '->' : '<-';
+  }
+
+  // Token stream helpers
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  private check(type: TokenType, value?: string): boolean {
+    const token = this.peek();
+    return token.type === type && (value === undefined || token.value === value);
+  }
+
+  private accept(type: TokenType, value?: string): Token | null {
+    return this.check(type, value) ? this.next() : null;
+  }
+
+  private expect(type: TokenType, value?: string, description?: string): Token {
+    if (this.check(type, value)) return this.next();
+
+    const label = description || (value !== undefined ? `"${value}"` : type);
+    throw this.error(this.peek(), `Expected ${label}`, [description || value || type]);
+  }
+
+  private skipNewlines(): void {
+    while (this.check('newline')) this.index++;
+  }
+
+  private atValueEnd(): boolean {
+    return this.check('newline') || this.check('eof') || this.check('punctuation', '}');
+  }
+
+  private endOfClause(): void {
+    if (this.check('newline')) {
+      this.next();
+      return;
+    }
+    if (!this.atValueEnd()) {
+      throw this.error(this.peek(), 'Expected end of line', ['end of line']);
+    }
+  }
+
+  private position(token: Token): SourcePosition {
+    return { line: token.line, column: token.column };
+  }
+
+  private error(token: Token, message: string, expected: string[] = []): AIQSyntaxError {
+    const found = describeToken(token);
+    return new AIQSyntaxError(`${message}, found ${found}`, token.line, token.column, expected, found);
+  }
+}
+
+function isAlgorithm(name: string): name is AlgorithmCall['name'] {
+  return (ALGORITHMS as readonly string[]).includes(name);
+}
+
+function describeToken(token: Token): string {
+  if (token.type === 'eof') return 'end of query';
+  if (token.type === 'newline') return 'end of line';
+  if (token.type === 'string') return `string "${token.value}"`;
+  return `"${token.value}"`;
+}
+
+/**
+ * Unquoted literal typing: booleans, numbers, ISO dates, otherwise a string
+ * (surrounding quotes removed)
+ */
+function typedValue(raw: string): string | number | boolean | Date {
+  if (raw === 'true') return true;
+  if (raw === 'false') return false;
+
+  if (/^-?\d+(\.\d+)?([eE][+-]?\d+)?$/.test(raw)) {
+    return parseFloat(raw);
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}/.test(raw)) {
+    return new Date(raw);
+  }
+
+  return raw.replace(/^["']|["']$/g, '');
+}
@@ -0,0 +1,233 @@
+import { Conditions, GraphNode } from '@aiws/shared';
+
+const likePatterns = new Map<string, RegExp>();
+
+/**
+ * Evaluate WHERE / FILTER conditions against a node (or a COMPUTE row)
+ *
+ * Every key must hold: $and / $or / $not combine nested conditions, any
+ * other key names a field compared by equality or by an operator object
+ * ({ $gt: 5, $lte: 10 }). Missing fields fail every comparison except $ne
+ * and $exists: false.
+ */
+export function matchesConditions(node: GraphNode | Record<string, any>, conditions: Conditions): boolean {
+  for (const [key, condition] of Object.entries(conditions)) {
+    switch (key) {
+      case '$and':
+        if (!(condition as Conditions[]).every(part => matchesConditions(node, part))) return false;
+        break;
+      case '$or':
+        if (!(condition as Conditions[]).some(part => matchesConditions(node, part))) return false;
+        break;
+      case '$not':
+        if (matchesConditions(node, condition)) return false;
+        break;
+      default:
+        if (!matchesValue(fieldValue(node, key), condition)) return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Field names the conditions compare, including inside $and / $or / $not
+ */
+export function conditionFields(conditions: Conditions | undefined): string[] {
+  const fields: string[] = [];
+  for (const [key, condition] of Object.entries(conditions || {})) {
+    if (key === '$and' || key === '$or') {
+      for (const part of condition as Conditions[]) fields.push(...conditionFields(part));
+    } else if (key === '$not') {
+      fields.push(...conditionFields(condition));
+    } else {
+      fields.push(key);
+    }
+  }
+  return fields;
+}
+
+/**
+ * { $gt: 5 } is an operator object; plain values, arrays and dates are compared for equality
+ */
+export function isOperatorObject(condition: any): boolean {
+  if (condition === null || typeof condition !== 'object') return false;
+  if (Array.isArray(condition) || condition instanceof Date) return false;
+
+  const keys = Object.keys(condition);
+  return keys.length > 0 && keys.every(key => key.startsWith('$'));
+}
+
+/**
+ * A node property, else a field of the result itself (id, similarity,
+ * computed aggregates); `id` is the node id unless the node has an id property
+ */
+export function fieldValue(node: GraphNode | Record<string, any>, key: string): any {
+  const properties = node.properties;
+  if (properties && key in properties) return properties[key];
+  return (node as Record<string, any>)[key];
+}
+
+/**
+ * Whether one value satisfies a field condition (a value or operator object)
+ */
+export function matchesValue(value: any, condition: any): boolean {
+  if (!isOperatorObject(condition)) {
+    return valuesEqual(value, condition);
+  }
+
+  for (const [operator, operand] of Object.entries(condition)) {
+    if (!applyOperator(operator, value, operand)) return false;
+  }
+  return true;
+}
+
+function applyOperator(operator: string, value: any, operand: any): boolean {
+  switch (operator) {
+    case '$eq':
+      return valuesEqual(value, operand);
+    case '$ne':
+      return !valuesEqual(value, operand);
+    case '$gt':
+      return compareValues(value, operand) > 0;
+    case '$gte':
+      return compareValues(value, operand) >= 0;
+    case '$lt':
+      return compareValues(value, operand) < 0;
+    case '$lte':
+      return compareValues(value, operand) <= 0;
+    case '$in':
+      if (!Array.isArray(operand)) {
+        throw new Error('$in expects a list');
+      }
+      return operand.some(item => valuesEqual(value, item));
+    case '$like':
+      return typeof value === 'string' && likePattern(String(operand)).test(value);
+    case '$contains':
+      if (Array.isArray(value)) return value.some(item => valuesEqual(item, operand));
+      return typeof value === 'string' && value.toLowerCase().includes(String(operand).toLowerCase());
+    case '$exists':
+      return (value !== undefined && value !== null) === Boolean(operand);
+    default:
+      throw new Error(`Unsupported condition operator: ${operator}`);
+  }
+}
+
+function valuesEqual(a: any, b: any): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    const left = timeOf(a);
+    return !Number.isNaN(left) && left === timeOf(b);
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => valuesEqual(item, b[i]));
+  }
+  // AIQ types numeric text as numbers; ids and properties may hold either
+  if ((typeof a === 'number' && typeof b === 'string') || (typeof a === 'string' && typeof b === 'number')) {
+    return String(a) === String(b);
+  }
+  return a === b;
+}
+
+/**
+ * Ordering of two values; NaN (no order) when either is missing or they
+ * are not comparable, so every range comparison fails
+ */
+function compareValues(a: any, b: any): number {
+  if (a === undefined || a === null || b === undefined || b === null) return NaN;
+
+  if (a instanceof Date || b instanceof Date) {
+    return timeOf(a) - timeOf(b);
+  }
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;
+  if (typeof a === 'number' || typeof b === 'number') return Number(a) - Number(b);
+  return NaN;
+}
+
+/**
+ * Deep equality of property values (dates by time)
+ */
+export function sameValue(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => sameValue(item, b[i]));
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object' && !(a instanceof Date) && !(b instanceof Date)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return Array.from(keys).every(key => sameValue(a[key], b[key]));
+  }
+  return false;
+}
+
+/**
+ * Total order used by SORT BY and the secondary indexes: values of one kind
+ * compare as in conditions, kinds order booleans < numbers < dates <
+ * strings < other values, and missing values come last
+ */
+export function orderValues(a: any, b: any): number {
+  const kind = sortKind(a);
+  if (kind !== sortKind(b)) return kind - sortKind(b);
+
+  switch (kind) {
+    case SortKind.Boolean:
+      return Number(a) - Number(b);
+    case SortKind.Number:
+      return a < b ? -1 : a > b ? 1 : 0;
+    case SortKind.Date:
+      return timeOf(a) - timeOf(b);
+    case SortKind.String:
+      return a < b ? -1 : a > b ? 1 : 0;
+    case SortKind.Other: {
+      const left = JSON.stringify(a);
+      const right = JSON.stringify(b);
+      return left < right ? -1 : left > right ? 1 : 0;
+    }
+    default:
+      return 0;
+  }
+}
+
+export enum SortKind {
+  Boolean,
+  Number,
+  Date,
+  String,
+  Other,
+  Missing
+}
+
+export function sortKind(value: any): SortKind {
+  if (value === undefined || value === null) return SortKind.Missing;
+  if (typeof value === 'boolean') return SortKind.Boolean;
+  if (typeof value === 'number') return SortKind.Number;
+  if (value instanceof Date) return SortKind.Date;
+  if (typeof value === 'string') return SortKind.String;
+  return SortKind.Other;
+}
+
+/**
+ * Milliseconds since the epoch of a Date, ISO date string or timestamp
+ */
+function timeOf(value: any): number {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) return Date.parse(value);
+  return NaN;
+}
+
+/**
+ * SQL LIKE: % matches any run of characters, _ a single one; case-insensitive
+ */
+function likePattern(pattern: string): RegExp {
+  let regex = likePatterns.get(pattern);
+  if (!regex) {
+    const source = pattern
+      .split('')
+      .map(char => (char === '%' ? '.*' : char === '_' ? '.' : char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+      .join('');
+    regex = new RegExp(`^${source}$`, 'is');
+    if (likePatterns.size >= 1000) likePatterns.clear();
+    likePatterns.set(pattern, regex);
+  }
+  return regex;
+}
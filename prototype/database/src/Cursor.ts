@@ -0,0 +1,79 @@
+import { SortExpression } from '@aiws/shared';
+import { fieldValue, orderValues } from './Conditions';
+
+/**
+ * Position of a row in a sorted result: the sort it was issued for and the
+ * row's sort value and id
+ */
+export interface PageCursor {
+  field: string;
+  order: 'ASC' | 'DESC';
+  value: any;
+  id: string | number;
+}
+
+/**
+ * One page of a result and the cursor of the next page (null on the last one)
+ */
+export interface Page {
+  rows: any[];
+  nextCursor: string | null;
+}
+
+/** Sort of queries that page without SORT BY */
+export const ID_ORDER: SortExpression = { field: 'id', order: 'ASC' };
+
+/**
+ * Order of two rows under a sort, ties broken by id in the same direction,
+ * so that every row has one position
+ */
+export function compareRows(a: any, b: any, sort: SortExpression): number {
+  const comparison =
+    orderValues(fieldValue(a, sort.field), fieldValue(b, sort.field)) || orderValues(a?.id, b?.id);
+  return sort.order === 'DESC' ? -comparison : comparison;
+}
+
+/**
+ * Whether a row comes after the cursor position
+ */
+export function isAfter(row: any, cursor: PageCursor): boolean {
+  return compareRows(row, { id: cursor.id, [cursor.field]: cursor.value }, cursor) > 0;
+}
+
+/**
+ * Opaque cursor (base64url JSON) of the position of a row under a sort
+ */
+export function encodeCursor(sort: SortExpression, row: any): string {
+  if (row?.id === undefined) {
+    throw new Error('Cursors need rows with ids');
+  }
+  const value = fieldValue(row, sort.field);
+  const cursor = {
+    f: sort.field,
+    o: sort.order,
+    // JSON has no Date type
+    v: value instanceof Date ? { $date: value.getTime() } : value ?? null,
+    id: row.id
+  };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(text: string): PageCursor {
+  let cursor: any;
+  try {
+    cursor = JSON.parse(Buffer.from(text, 'base64url').toString('utf8'));
+  } catch {
+    cursor = null;
+  }
+  if (
+    !cursor ||
+    typeof cursor.f !== 'string' ||
+    (cursor.o !== 'ASC' && cursor.o !== 'DESC') ||
+    (typeof cursor.id !== 'string' && typeof cursor.id !== 'number')
+  ) {
+    throw new Error(`Invalid cursor: ${text}`);
+  }
+
+  const value = cursor.v !== null && typeof cursor.v === 'object' && '$date' in cursor.v ? new Date(cursor.v.$date) : cursor.v;
+  return { field: cursor.f, order: cursor.o, value, id: cursor.id };
+}
@@ -0,0 +1,89 @@
+/**
+ * Embedding Provider - Turns text into vectors for GraphNode.embedding
+ *
+ * Providers are synchronous so GraphMemDB can embed inside its write path.
+ */
+export interface EmbeddingProvider {
+  /** Identifier reported in stats */
+  readonly name: string;
+  /** Length of every vector returned by embed() */
+  readonly dimensions: number;
+  /** Embed a text; returns null when there is nothing to embed */
+  embed(text: string): number[] | null;
+}
+
+export interface HashedEmbeddingOptions {
+  /** Vector length (default 256) */
+  dimensions?: number;
+  /** Character n-gram size (default 3) */
+  ngramSize?: number;
+  /** Weight of character n-grams relative to whole words (default 0.5) */
+  ngramWeight?: number;
+}
+
+/**
+ * Hashed Embedding Provider - Deterministic offline embeddings
+ *
+ * Words and character n-grams are hashed into a fixed number of buckets
+ * (the hashing trick, with a hash-derived sign to cancel collisions),
+ * weighted by sublinear term frequency and L2-normalised. Texts sharing
+ * words or word fragments end up close under cosine similarity, which is
+ * enough for "similar products" without a model or network service.
+ */
+export class HashedEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashed-ngram';
+  readonly dimensions: number;
+  private ngramSize: number;
+  private ngramWeight: number;
+
+  constructor(options: HashedEmbeddingOptions = {}) {
+    this.dimensions = options.dimensions ?? 256;
+    this.ngramSize = options.ngramSize ?? 3;
+    this.ngramWeight = options.ngramWeight ?? 0.5;
+  }
+
+  embed(text: string): number[] | null {
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+    if (!words) return null;
+
+    const features = new Map<string, { count: number; weight: number }>();
+    const addFeature = (feature: string, weight: number) => {
+      const existing = features.get(feature);
+      if (existing) existing.count++;
+      else features.set(feature, { count: 1, weight });
+    };
+
+    for (const word of words) {
+      addFeature(`w:${word}`, 1);
+
+      const padded = `#${word}#`;
+      for (let i = 0; i + this.ngramSize <= padded.length; i++) {
+        addFeature(`g:${padded.slice(i, i + this.ngramSize)}`, this.ngramWeight);
+      }
+    }
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, { count, weight }] of features) {
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * weight * (1 + Math.log(count));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    if (norm === 0) return null;
+
+    return vector.map(value => value / norm);
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,307 @@
+import { GraphNode, TraversalDirection } from '@aiws/shared';
+import { GraphMemDB } from './GraphMemDB';
+
+export interface AlgorithmOptions {
+  /** Relationships to follow (default: all) */
+  relationships?: string[];
+  /** Edge direction to follow (default: out) */
+  direction?: TraversalDirection;
+  /** Only return nodes of this type (the whole graph is still used) */
+  type?: string;
+}
+
+export interface PageRankOptions extends AlgorithmOptions {
+  damping?: number;
+  iterations?: number;
+  tolerance?: number;
+  /** Personalized PageRank: teleport back to this node instead of uniformly */
+  seed?: string | number;
+}
+
+export interface ShortestPathResult {
+  path: GraphNode[];
+  distance: number;
+}
+
+export interface RankedNode {
+  node: GraphNode;
+  score: number;
+}
+
+export interface DegreeResult {
+  node: GraphNode;
+  inDegree: number;
+  outDegree: number;
+  degree: number;
+  centrality: number;
+}
+
+interface Neighbour {
+  id: string;
+  weight: number;
+}
+
+/**
+ * Graph Algorithms - In-database analytics over GraphMemDB
+ *
+ * Edge weights come from GraphEdge.weight (default 1).
+ */
+export class GraphAlgorithms {
+  private db: GraphMemDB;
+
+  constructor(db: GraphMemDB) {
+    this.db = db;
+  }
+
+  /**
+   * Dijkstra shortest path using edge weights
+   */
+  shortestPath(
+    from: string | number,
+    to: string | number,
+    options: AlgorithmOptions = {}
+  ): ShortestPathResult | null {
+    const source = String(from);
+    const target = String(to);
+    if (!this.db.getNode(source) || !this.db.getNode(target)) return null;
+
+    const distances = new Map<string, number>([[source, 0]]);
+    const previous = new Map<string, string>();
+    const settled = new Set<string>();
+    const queue = new MinHeap();
+    queue.push(source, 0);
+
+    while (queue.size() > 0) {
+      const { id, priority } = queue.pop()!;
+      if (settled.has(id)) continue;
+      settled.add(id);
+
+      if (id === target) break;
+
+      for (const neighbour of this.neighbours(id, options)) {
+        if (neighbour.weight < 0) {
+          throw new Error(`Negative edge weight on ${id} -> ${neighbour.id}`);
+        }
+        const distance = priority + neighbour.weight;
+        if (distance < (distances.get(neighbour.id) ?? Infinity)) {
+          distances.set(neighbour.id, distance);
+          previous.set(neighbour.id, id);
+          queue.push(neighbour.id, distance);
+        }
+      }
+    }
+
+    if (!distances.has(target)) return null;
+
+    const path: GraphNode[] = [];
+    for (let id: string | undefined = target; id !== undefined; id = previous.get(id)) {
+      path.unshift(this.db.getNode(id)!);
+    }
+
+    return { path, distance: distances.get(target)! };
+  }
+
+  /**
+   * Weakly connected components (edges followed in both directions)
+   */
+  connectedComponents(options: AlgorithmOptions = {}): GraphNode[][] {
+    const visited = new Set<string>();
+    const components: GraphNode[][] = [];
+    const undirected = { ...options, direction: 'both' as TraversalDirection };
+
+    for (const node of this.db.getAllNodes()) {
+      const startId = String(node.id);
+      if (visited.has(startId)) continue;
+
+      const component: GraphNode[] = [];
+      const stack = [startId];
+      visited.add(startId);
+
+      while (stack.length > 0) {
+        const id = stack.pop()!;
+        const current = this.db.getNode(id);
+        if (current) component.push(current);
+
+        for (const neighbour of this.neighbours(id, undirected)) {
+          if (!visited.has(neighbour.id) && this.db.getNode(neighbour.id)) {
+            visited.add(neighbour.id);
+            stack.push(neighbour.id);
+          }
+        }
+      }
+
+      const members = this.filterType(component, options.type);
+      if (members.length > 0) {
+        components.push(members);
+      }
+    }
+
+    return components.sort((a, b) => b.length - a.length);
+  }
+
+  /**
+   * Degree centrality: degree / (n - 1)
+   */
+  degreeCentrality(options: AlgorithmOptions = {}): DegreeResult[] {
+    const nodes = this.db.getAllNodes();
+    const normalizer = Math.max(nodes.length - 1, 1);
+    const direction = options.direction || 'both';
+
+    const results = this.filterType(nodes, options.type).map(node => {
+      const outDegree = this.neighbours(String(node.id), { ...options, direction: 'out' }).length;
+      const inDegree = this.neighbours(String(node.id), { ...options, direction: 'in' }).length;
+      const degree =
+        direction === 'out' ? outDegree : direction === 'in' ? inDegree : outDegree + inDegree;
+
+      return { node, inDegree, outDegree, degree, centrality: degree / normalizer };
+    });
+
+    return results.sort((a, b) => b.degree - a.degree);
+  }
+
+  /**
+   * PageRank by power iteration; rank mass of dangling nodes is
+   * redistributed along the teleport vector
+   */
+  pageRank(options: PageRankOptions = {}): RankedNode[] {
+    const damping = options.damping ?? 0.85;
+    const iterations = options.iterations ?? 100;
+    const tolerance = options.tolerance ?? 1e-6;
+
+    const ids = this.db.getAllNodes().map(node => String(node.id));
+    if (ids.length === 0) return [];
+
+    const seed = options.seed !== undefined ? String(options.seed) : undefined;
+    if (seed !== undefined && !this.db.getNode(seed)) {
+      throw new Error(`PageRank seed not found: ${options.seed}`);
+    }
+    const teleport = (id: string) => (seed === undefined ? 1 / ids.length : id === seed ? 1 : 0);
+
+    // Outgoing weights per node, normalised to transition probabilities
+    const transitions = new Map<string, Neighbour[]>();
+    for (const id of ids) {
+      const neighbours = this.neighbours(id, options).filter(n => n.weight > 0 && this.db.getNode(n.id));
+      const total = neighbours.reduce((sum, n) => sum + n.weight, 0);
+      transitions.set(id, neighbours.map(n => ({ id: n.id, weight: n.weight / total })));
+    }
+
+    let ranks = new Map(ids.map(id => [id, teleport(id)]));
+
+    for (let i = 0; i < iterations; i++) {
+      let danglingMass = 0;
+      const next = new Map(ids.map(id => [id, 0]));
+
+      for (const id of ids) {
+        const rank = ranks.get(id)!;
+        const outgoing = transitions.get(id)!;
+        if (outgoing.length === 0) {
+          danglingMass += rank;
+          continue;
+        }
+        for (const { id: targetId, weight } of outgoing) {
+          next.set(targetId, next.get(targetId)! + damping * rank * weight);
+        }
+      }
+
+      let delta = 0;
+      for (const id of ids) {
+        const value =
+          next.get(id)! + (1 - damping + damping * danglingMass) * teleport(id);
+        delta += Math.abs(value - ranks.get(id)!);
+        next.set(id, value);
+      }
+
+      ranks = next;
+      if (delta < tolerance) break;
+    }
+
+    return this.filterType(this.db.getAllNodes(), options.type)
+      .filter(node => String(node.id) !== seed)
+      .map(node => ({ node, score: ranks.get(String(node.id)) || 0 }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Weighted neighbours of a node in the requested direction
+   */
+  private neighbours(nodeId: string, options: AlgorithmOptions): Neighbour[] {
+    const direction = options.direction || 'out';
+    const node = this.db.getNode(nodeId);
+    if (!node) return [];
+
+    const follows = (relationship: string) =>
+      !options.relationships || options.relationships.includes(relationship);
+    const neighbours: Neighbour[] = [];
+
+    if (direction === 'out' || direction === 'both') {
+      for (const edge of node.edges) {
+        if (follows(edge.relationship)) {
+          neighbours.push({ id: String(edge.target), weight: edge.weight ?? 1 });
+        }
+      }
+    }
+
+    if (direction === 'in' || direction === 'both') {
+      for (const sourceId of this.db.getInboundSources(nodeId, options.relationships)) {
+        const source = this.db.getNode(sourceId);
+        for (const edge of source?.edges || []) {
+          if (String(edge.target) === nodeId && follows(edge.relationship)) {
+            neighbours.push({ id: sourceId, weight: edge.weight ?? 1 });
+          }
+        }
+      }
+    }
+
+    return neighbours;
+  }
+
+  private filterType(nodes: GraphNode[], type?: string): GraphNode[] {
+    return type ? nodes.filter(node => node.type === type) : nodes;
+  }
+}
+
+/**
+ * Binary min-heap keyed by priority (Dijkstra frontier)
+ */
+class MinHeap {
+  private items: { id: string; priority: number }[] = [];
+
+  size(): number {
+    return this.items.length;
+  }
+
+  push(id: string, priority: number): void {
+    this.items.push({ id, priority });
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.items[parent].priority <= this.items[i].priority) break;
+      [this.items[parent], this.items[i]] = [this.items[i], this.items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): { id: string; priority: number } | undefined {
+    const top = this.items[0];
+    const last = this.items.pop();
+    if (this.items.length > 0 && last) {
+      this.items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.items.length && this.items[left].priority < this.items[smallest].priority) {
+          smallest = left;
+        }
+        if (right < this.items.length && this.items[right].priority < this.items[smallest].priority) {
+          smallest = right;
+        }
+        if (smallest === i) break;
+        [this.items[smallest], this.items[i]] = [this.items[i], this.items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
@@ -1,4 +1,96 @@
-import { GraphNode, GraphEdge, AIQQuery } from '@aiws/shared';
+import {
+  GraphNode,
+  GraphEdge,
+  AIQQuery,
+  AIQWriteResult,
+  AIQIndexResult,
+  AIQTransactionResult,
+  ChangeEvent,
+  ChangeOrigin,
+  IndexDefinition,
+  LiveQueryDiff,
+  NodeSchema,
+  NodeVersion,
+  TraversalDirection,
+  PathPattern,
+  PatternNode,
+  ScoredGraphNode,
+  SearchResultNode,
+  ComputeExpression,
+  NestedProjection,
+  Projection,
+  SortExpression
+} from '@aiws/shared';
+import * as fs from 'fs';
+import { AsyncLocalStorage } from 'async_hooks';
+import { performance } from 'perf_hooks';
+import { StorageEngine, WALRecord } from './StorageEngine';
+import { NodeSerializer } from './NodeSerializer';
+import { GraphAlgorithms } from './GraphAlgorithms';
+import {
+  HNSWIndex,
+  VectorIndexOptions,
+  vectorDistance,
+  distanceToSimilarity
+} from './VectorIndex';
+import { EmbeddingProvider } from './EmbeddingProvider';
+import { FullTextIndex, TextSearchOptions } from './TextIndex';
+import { conditionFields, fieldValue, matchesConditions, orderValues, sameValue } from './Conditions';
+import { QueryPlanner, QueryPlan, PlanNode } from './QueryPlanner';
+import { SecondaryIndex } from './SecondaryIndex';
+import { SchemaError, validateNode, validateQuery } from './Schema';
+import { QueryCache, QueryCacheOptions, CacheDependencies, CacheChange, affects } from './QueryCache';
+import { Transaction, TransactionConflictError, TransactionStore } from './Transaction';
+import { LiveQuery, LiveQueryStore } from './LiveQuery';
+import { ID_ORDER, Page, compareRows, decodeCursor, encodeCursor, isAfter } from './Cursor';
+
+export type EdgePolicy = 'cascade' | 'dangling';
+
+/** Neighbours an aggregate follows: over one relationship, or of one type */
+type Relation = { relationship?: string; type?: string };
+
+/** Candidate sets at most this fraction of a vector index are scored exactly */
+const PRE_FILTER_SELECTIVITY = 0.1;
+
+/** Reads: they can be kept live and shaped with RETURN */
+const READ_OPERATIONS: AIQQuery['operation'][] = ['FETCH', 'GRAPH_TRAVERSE', 'MATCH', 'CALL'];
+
+export interface GraphMemDBOptions {
+  /** Directory for snapshot + WAL files; omit for a purely in-memory database */
+  dataDir?: string;
+  /** Number of WAL records after which a snapshot is taken (default 1000) */
+  snapshotInterval?: number;
+  /** Default HNSW settings (metric, m, efConstruction, efSearch) for vector indexes */
+  vectorIndex?: VectorIndexOptions;
+  /** Per-type overrides of the vector index settings */
+  vectorIndexByType?: Record<string, VectorIndexOptions>;
+  /** Provider used to embed text properties automatically on insert and update */
+  embeddingProvider?: EmbeddingProvider;
+  /** Properties embedded per node type, e.g. { product: ['title', 'category'] } */
+  embeddedProperties?: Record<string, string[]>;
+  /** Properties covered by a full-text index per node type, e.g. { product: ['title'] } */
+  textIndexes?: Record<string, string[]>;
+  /** Secondary indexes to create, e.g. { type: 'user', fields: ['email'], unique: true } */
+  indexes?: IndexDefinition[];
+  /** Schemas enforced on writes, one per node type */
+  schemas?: NodeSchema[];
+  /** Result cache limits and default TTL */
+  cache?: QueryCacheOptions;
+  /** Versions kept per node for getHistory() and AS OF (default 100, 0 keeps none) */
+  historyLimit?: number;
+}
+
+export interface VectorSearchOptions {
+  /** Brute-force scan instead of the HNSW index (ground truth) */
+  exact?: boolean;
+  /** Candidate list size for the index search (default: index efSearch) */
+  ef?: number;
+}
+
+export interface ScoredNode {
+  node: GraphNode;
+  similarity: number;
+}
 
 /**
  * GraphMemDB - AI-Native Hybrid Database
@@ -8,383 +100,2234 @@ export class GraphMemDB {
   private nodes: Map<string, GraphNode>;
   private typeIndex: Map<string, Set<string>>;
   private edgeIndex: Map<string, Set<string>>;
-  private propertyIndex: Map<string, Map<any, Set<string>>>;
-  private cache: Map<string, { data: any; ttl: number; timestamp: number }>;
+  private inboundIndex: Map<string, Map<string, Set<string>>>;
+  /** Relationship -> number of edges */
+  private relationshipIndex: Map<string, number>;
+  /** Property name -> number of nodes that have it */
+  private propertyCounts: Map<string, number>;
+  /** Secondary indexes by name */
+  private indexes: Map<string, SecondaryIndex>;
+  /** Node type -> schema */
+  private schemas: Map<string, NodeSchema>;
+  private cache: QueryCache;
+  private storage: StorageEngine | null = null;
+  private snapshotInterval: number;
+  private algorithms: GraphAlgorithms;
+  private vectorIndexes: Map<string, HNSWIndex>;
+  private vectorIndexOptions: VectorIndexOptions;
+  private vectorIndexByType: Record<string, VectorIndexOptions>;
+  private embeddingProvider: EmbeddingProvider | null;
+  private embeddedProperties: Record<string, string[]>;
+  private textIndexes: Map<string, { properties: string[]; index: FullTextIndex }>;
+  private planner: QueryPlanner;
+  /** Open transactions, which get the previous state of every node a commit changes */
+  private transactions: Set<Transaction> = new Set();
+  private transactionStore: TransactionStore;
+  private nextTransactionId = 1;
+  /** Incremented by every write; a node's version is the one that last wrote it */
+  private commitVersion = 0;
+  private versions: Map<string, number> = new Map();
+  /** Version of the last clear(), which wrote every node */
+  private clearedVersion = 0;
+  private changeListeners: Set<(changes: ChangeEvent[]) => void> = new Set();
+  /** Changes not yet handed to listeners and live queries */
+  private pendingChanges: ChangeEvent[] = [];
+  private liveQueries: Set<LiveQuery> = new Set();
+  private liveQueryStore: LiveQueryStore;
+  private nextLiveQueryId = 1;
+  /** Node id -> versions, oldest first */
+  private history: Map<string, NodeVersion[]> = new Map();
+  private historyLimit: number;
+  private origins: AsyncLocalStorage<ChangeOrigin> = new AsyncLocalStorage();
+  /**
+   * Time and origin of the write being applied, shared by every node it
+   * changes, and the commit version it started from
+   */
+  private writeStamp: { at: number; origin?: ChangeOrigin; version: number } | null = null;
+  private recovering = false;
 
-  constructor() {
+  constructor(options: GraphMemDBOptions = {}) {
     this.nodes = new Map();
     this.typeIndex = new Map();
     this.edgeIndex = new Map();
-    this.propertyIndex = new Map();
-    this.cache = new Map();
-  }
-
-  /**
-   * Add a node to the graph
-   */
-  addNode(node: GraphNode): void {
-    const nodeId = String(node.id);
-    this.nodes.set(nodeId, node);
-
-    // Update type index
-    if (!this.typeIndex.has(node.type)) {
-      this.typeIndex.set(node.type, new Set());
+    this.inboundIndex = new Map();
+    this.relationshipIndex = new Map();
+    this.propertyCounts = new Map();
+    this.indexes = new Map();
+    this.schemas = new Map();
+    this.cache = new QueryCache(options.cache);
+    this.historyLimit = options.historyLimit ?? 100;
+    this.snapshotInterval = options.snapshotInterval ?? 1000;
+    this.algorithms = new GraphAlgorithms(this);
+    this.vectorIndexes = new Map();
+    this.vectorIndexOptions = options.vectorIndex || {};
+    this.vectorIndexByType = options.vectorIndexByType || {};
+    this.embeddingProvider = options.embeddingProvider || null;
+    this.embeddedProperties = options.embeddedProperties || {};
+    this.textIndexes = new Map();
+    for (const [type, properties] of Object.entries(options.textIndexes || {})) {
+      this.textIndexes.set(type, { properties, index: new FullTextIndex() });
     }
-    this.typeIndex.get(node.type)!.add(nodeId);
+    for (const definition of options.indexes || []) {
+      this.applyCreateIndex(definition);
+    }
+    this.planner = new QueryPlanner({
+      totalNodes: () => this.nodes.size,
+      typeCount: type => this.typeIndex.get(type)?.size || 0,
+      propertyCount: key => this.propertyCounts.get(key) || 0,
+      indexes: type => this.indexesOf(type),
+      relationshipCount: relationship => this.relationshipIndex.get(relationship) || 0,
+      totalEdges: () => Array.from(this.relationshipIndex.values()).reduce((sum, count) => sum + count, 0),
+      followsEdges: argument => this.resolveComputeField(argument).relation !== undefined
+    });
+    this.transactionStore = {
+      getNode: id => this.nodes.get(id),
+      nodeIds: type => Array.from(this.typeIndex.get(type) || []),
+      inboundSources: id => this.getInboundSources(id),
+      nextNodeId: () => this.nextNodeId(),
+      validate: (node, typeOf) => this.checkSchema(node, typeOf),
+      commit: (transaction, writes) => this.commitTransaction(transaction, writes),
+      release: transaction => this.transactions.delete(transaction)
+    };
+    this.liveQueryStore = {
+      execute: query => this.executeQuery(query),
+      affects: (query, changes) => {
+        const dependencies = this.cacheDependencies(query);
+        return changes.some(change =>
+          this.cacheChanges(change.before || undefined, change.after || undefined).some(cacheChange =>
+            affects(cacheChange, dependencies)
+          )
+        );
+      },
+      release: liveQuery => this.liveQueries.delete(liveQuery)
+    };
 
-    // Update property indexes
-    for (const [key, value] of Object.entries(node.properties)) {
-      if (!this.propertyIndex.has(key)) {
-        this.propertyIndex.set(key, new Map());
-      }
-      const propIndex = this.propertyIndex.get(key)!;
-      if (!propIndex.has(value)) {
-        propIndex.set(value, new Set());
-      }
-      propIndex.get(value)!.add(nodeId);
+    if (options.dataDir) {
+      this.storage = new StorageEngine(options.dataDir);
+      this.recover();
     }
 
-    // Update edge index
-    for (const edge of node.edges) {
-      const edgeKey = `${nodeId}:${edge.relationship}`;
-      if (!this.edgeIndex.has(edgeKey)) {
-        this.edgeIndex.set(edgeKey, new Set());
-      }
-      this.edgeIndex.get(edgeKey)!.add(String(edge.target));
+    // Schemas declared in the options replace any recovered definition
+    for (const schema of options.schemas || []) {
+      this.schemas.set(schema.type, schema);
     }
   }
 
   /**
-   * Get a node by ID
+   * Add a node to the graph (replaces any node with the same id)
    */
-  getNode(id: string | number): GraphNode | undefined {
-    return this.nodes.get(String(id));
+  addNode(node: GraphNode): void {
+    this.checkSchema(node);
+    this.stamped(() => {
+      this.applyPutNode(node);
+      this.log({ op: 'addNode', node });
+    });
   }
 
   /**
-   * Get all nodes of a specific type
+   * Replace the type, properties, edges or embedding of an existing node
    */
-  getNodesByType(type: string): GraphNode[] {
-    const nodeIds = this.typeIndex.get(type);
-    if (!nodeIds) return [];
+  updateNode(id: string | number, changes: Partial<Omit<GraphNode, 'id'>>): GraphNode {
+    const existing = this.requireNode(id);
+    const updated: GraphNode = { ...existing, ...changes, id: existing.id };
+    this.checkSchema(updated);
 
-    return Array.from(nodeIds)
-      .map(id => this.nodes.get(id))
-      .filter((node): node is GraphNode => node !== undefined);
+    return this.stamped(() => {
+      const stored = this.applyPutNode(updated);
+      this.log({ op: 'addNode', node: updated });
+      return stored;
+    });
   }
 
   /**
-   * Find nodes by property value
+   * Merge properties into an existing node; keys set to undefined are removed
    */
-  findNodesByProperty(key: string, value: any): GraphNode[] {
-    const propIndex = this.propertyIndex.get(key);
-    if (!propIndex) return [];
+  patchProperties(id: string | number, patch: Record<string, any>): GraphNode {
+    const existing = this.requireNode(id);
+    const properties = { ...existing.properties };
 
-    const nodeIds = propIndex.get(value);
-    if (!nodeIds) return [];
+    for (const [key, value] of Object.entries(patch)) {
+      if (value === undefined) {
+        delete properties[key];
+      } else {
+        properties[key] = value;
+      }
+    }
 
-    return Array.from(nodeIds)
-      .map(id => this.nodes.get(id))
-      .filter((node): node is GraphNode => node !== undefined);
+    return this.updateNode(id, { properties });
   }
 
   /**
-   * Graph traversal - follow relationships
+   * Remove a node. With the 'cascade' policy, edges from other nodes that
+   * point at it are removed too; 'dangling' leaves them in place.
    */
-  traverse(
-    startNodeId: string | number,
-    relationships: string[],
-    maxDepth: number = 2
-  ): GraphNode[] {
-    const visited = new Set<string>();
-    const results: GraphNode[] = [];
-    const queue: { nodeId: string; depth: number }[] = [
-      { nodeId: String(startNodeId), depth: 0 }
-    ];
+  removeNode(id: string | number, policy: EdgePolicy = 'cascade'): boolean {
+    if (!this.nodes.has(String(id))) return false;
 
-    while (queue.length > 0) {
-      const { nodeId, depth } = queue.shift()!;
+    this.stamped(() => {
+      this.applyRemoveNode(String(id), policy);
+      this.log({ op: 'removeNode', id, policy });
+    });
+    return true;
+  }
 
-      if (visited.has(nodeId) || depth > maxDepth) continue;
-      visited.add(nodeId);
+  /**
+   * Add an outgoing edge to a node
+   */
+  addEdge(sourceId: string | number, edge: GraphEdge): GraphNode {
+    const existing = this.requireNode(sourceId);
+    return this.updateNode(sourceId, { edges: [...existing.edges, edge] });
+  }
 
-      const node = this.nodes.get(nodeId);
-      if (!node) continue;
+  /**
+   * Remove outgoing edges matching relationship and target
+   */
+  removeEdge(sourceId: string | number, relationship: string, target: string | number): boolean {
+    const existing = this.requireNode(sourceId);
+    const edges = existing.edges.filter(
+      edge => !(edge.relationship === relationship && String(edge.target) === String(target))
+    );
+    if (edges.length === existing.edges.length) return false;
 
-      if (depth > 0) {
-        results.push(node);
-      }
+    this.updateNode(sourceId, { edges });
+    return true;
+  }
 
-      // Follow specified relationships
-      for (const edge of node.edges) {
-        if (relationships.includes(edge.relationship)) {
-          queue.push({
-            nodeId: String(edge.target),
-            depth: depth + 1
+  /**
+   * Register an embedding provider and the text properties it embeds per
+   * type. Existing nodes of those types are re-embedded; embeddings are
+   * derived data, so nothing is written to the WAL.
+   */
+  registerEmbeddingProvider(provider: EmbeddingProvider, properties: Record<string, string[]>): void {
+    this.embeddingProvider = provider;
+    this.embeddedProperties = properties;
+
+    // Nor is it a write: no history, change events or version bumps. Cached
+    // results and live queries that read embeddings are refreshed.
+    const changes: ChangeEvent[] = [];
+    for (const type of Object.keys(properties)) {
+      // The provider's dimensions may differ from the current vectors
+      this.vectorIndexes.delete(type);
+      for (const node of this.getNodesByType(type)) {
+        const embedded = this.withDerivedEmbedding(node);
+        this.nodes.set(String(node.id), embedded);
+        if (embedded.embedding) {
+          this.vectorIndexOf(type).add(String(node.id), embedded.embedding);
+        }
+        if (embedded !== node) {
+          changes.push({
+            seq: this.commitVersion,
+            op: 'update',
+            id: node.id,
+            type,
+            before: node,
+            after: embedded,
+            timestamp: Date.now()
           });
         }
       }
+      this.cache.invalidate({ type, properties: ['$embedding'] });
     }
 
-    return results;
+    for (const liveQuery of this.liveQueries) {
+      liveQuery.refresh(changes);
+    }
   }
 
   /**
-   * Vector similarity search (simplified)
+   * Embed free text with the registered provider
    */
-  vectorSearch(
-    queryEmbedding: number[],
-    type?: string,
-    limit: number = 10,
-    threshold: number = 0.7
-  ): GraphNode[] {
-    let candidates = Array.from(this.nodes.values());
+  embedText(text: string): number[] | null {
+    if (!this.embeddingProvider) {
+      throw new Error('No embedding provider registered');
+    }
+    return this.embeddingProvider.embed(text);
+  }
 
-    if (type) {
-      const nodeIds = this.typeIndex.get(type);
-      if (!nodeIds) return [];
-      candidates = Array.from(nodeIds)
-        .map(id => this.nodes.get(id))
-        .filter((node): node is GraphNode => node !== undefined);
-    }
-
-    // Calculate cosine similarity
-    const similarities = candidates
-      .filter(node => node.embedding)
-      .map(node => ({
-        node,
-        similarity: this.cosineSimilarity(queryEmbedding, node.embedding!)
-      }))
-      .filter(item => item.similarity >= threshold)
-      .sort((a, b) => b.similarity - a.similarity)
-      .slice(0, limit);
+  /**
+   * Create (or rebuild) the full-text index of a node type
+   */
+  createTextIndex(type: string, properties: string[]): void {
+    const entry = { properties, index: new FullTextIndex() };
+    this.textIndexes.set(type, entry);
 
-    return similarities.map(item => item.node);
+    for (const node of this.getNodesByType(type)) {
+      entry.index.add(String(node.id), textOf(node, properties));
+    }
+    this.cache.invalidate({ type, properties: null });
   }
 
   /**
-   * Execute AIQ query
+   * BM25-ranked full-text search over one type, or every indexed type
    */
-  executeQuery(query: AIQQuery): any[] {
-    const cacheKey = JSON.stringify(query);
-    const cached = this.getFromCache(cacheKey);
-    if (cached) return cached;
+  textSearch(query: string, type?: string, options: TextSearchOptions = {}): SearchResultNode[] {
+    const types = type ? [type] : Array.from(this.textIndexes.keys());
+    const results: SearchResultNode[] = [];
 
-    let results: GraphNode[] = [];
-
-    switch (query.operation) {
-      case 'FETCH':
-        results = this.executeFetch(query);
-        break;
-      case 'GRAPH_TRAVERSE':
-        results = this.executeTraverse(query);
-        break;
-      default:
-        throw new Error(`Unsupported operation: ${query.operation}`);
+    for (const indexType of types) {
+      const entry = this.textIndexes.get(indexType);
+      if (!entry) {
+        throw new Error(`No full-text index on type: ${indexType}`);
+      }
+      for (const match of entry.index.search(query, { prefix: options.prefix })) {
+        const node = this.nodes.get(match.id);
+        if (node) results.push({ ...node, score: match.score });
+      }
     }
 
-    // Apply filters
-    if (query.filter) {
-      results = this.applyFilters(results, query.filter);
+    results.sort((a, b) => b.score - a.score);
+    return options.limit !== undefined ? results.slice(0, options.limit) : results;
+  }
+
+  /**
+   * Create a secondary index over properties of a node type and build it
+   * from the existing nodes; returns the index name. Fails if a unique
+   * index would already have duplicates.
+   */
+  createIndex(definition: IndexDefinition): string {
+    const name = new SecondaryIndex(definition).name;
+    if (this.indexes.has(name)) {
+      throw new Error(`Index already exists: ${name}`);
     }
 
-    // Apply sorting
-    if (query.sort) {
-      results = this.applySort(results, query.sort);
+    const index = this.applyCreateIndex(definition);
+    this.log({ op: 'createIndex', definition: index.definition() });
+    return name;
+  }
+
+  dropIndex(name: string): boolean {
+    if (!this.indexes.has(name)) return false;
+
+    this.indexes.delete(name);
+    this.log({ op: 'dropIndex', name });
+    return true;
+  }
+
+  getIndexes(): IndexDefinition[] {
+    return Array.from(this.indexes.values(), index => index.definition());
+  }
+
+  private applyCreateIndex(definition: IndexDefinition): SecondaryIndex {
+    const index = new SecondaryIndex(definition);
+
+    for (const node of this.getNodesByType(index.type)) {
+      const nodeId = String(node.id);
+      const holder = index.conflict(nodeId, node);
+      if (holder !== undefined) {
+        throw new Error(
+          `Cannot create unique index ${index.name}: ${index.type} ${holder} and ${nodeId} share ${index.fields.join(', ')}`
+        );
+      }
+      index.add(nodeId, node);
     }
 
-    // Apply limit
-    if (query.limit) {
-      results = results.slice(0, query.limit);
+    this.indexes.set(index.name, index);
+    return index;
+  }
+
+  /**
+   * Enforce a schema on writes of its node type. Existing nodes of the type
+   * must already conform. Replaces the type's previous schema.
+   */
+  defineSchema(schema: NodeSchema): void {
+    const errors = this.getNodesByType(schema.type).flatMap(node => validateNode(schema, node, id => this.typeOfNode(id)));
+    if (errors.length > 0) {
+      throw new SchemaError(errors);
     }
 
-    // Apply compute expressions
-    let finalResults: any[] = results;
-    if (query.compute) {
-      finalResults = this.applyCompute(results, query.compute);
+    this.schemas.set(schema.type, schema);
+    this.log({ op: 'defineSchema', schema });
+  }
+
+  dropSchema(type: string): boolean {
+    if (!this.schemas.delete(type)) return false;
+
+    this.log({ op: 'dropSchema', type });
+    return true;
+  }
+
+  getSchema(type: string): NodeSchema | undefined {
+    return this.schemas.get(type);
+  }
+
+  getSchemas(): NodeSchema[] {
+    return Array.from(this.schemas.values());
+  }
+
+  /**
+   * Schema problems of a query (unknown fields, mistyped values, edges a
+   * type may not have); empty when it conforms or touches no schema
+   */
+  validateQuery(query: AIQQuery): string[] {
+    return validateQuery(query, type => this.schemas.get(type), id => this.typeOfNode(id));
+  }
+
+  private checkSchema(
+    node: GraphNode,
+    typeOf: (id: string | number) => string | undefined = id => this.typeOfNode(id)
+  ): void {
+    const schema = this.schemas.get(node.type);
+    if (!schema) return;
+
+    const errors = validateNode(schema, node, typeOf);
+    if (errors.length > 0) {
+      throw new SchemaError(errors);
     }
+  }
 
-    // Cache results
-    this.setCache(cacheKey, finalResults, 300000); // 5 min TTL
+  private typeOfNode(id: string | number): string | undefined {
+    return this.nodes.get(String(id))?.type;
+  }
 
-    return finalResults;
+  /**
+   * Open a transaction over a snapshot of the graph; its writes are staged
+   * until commit() and discarded by rollback()
+   */
+  beginTransaction(): Transaction {
+    const transaction = new Transaction(this.nextTransactionId++, this.commitVersion, this.transactionStore);
+    this.transactions.add(transaction);
+    return transaction;
   }
 
-  private executeFetch(query: AIQQuery): GraphNode[] {
-    let results = this.getNodesByType(query.target);
+  /**
+   * Run fn in a transaction: commit when it returns (or its promise
+   * resolves), roll back when it throws (or rejects). Commit throws
+   * TransactionConflictError if another commit wrote the same nodes first.
+   */
+  transaction<T>(fn: (transaction: Transaction) => T): T {
+    const transaction = this.beginTransaction();
 
-    if (query.where) {
-      for (const [key, value] of Object.entries(query.where)) {
-        results = results.filter(node => node.properties[key] === value);
-      }
+    let result: T;
+    try {
+      result = fn(transaction);
+    } catch (error) {
+      transaction.rollback();
+      throw error;
     }
 
-    return results;
+    if (result instanceof Promise) {
+      return result.then(
+        value => {
+          if (transaction.isActive()) transaction.commit();
+          return value;
+        },
+        error => {
+          transaction.rollback();
+          throw error;
+        }
+      ) as unknown as T;
+    }
+
+    if (transaction.isActive()) transaction.commit();
+    return result;
   }
 
-  private executeTraverse(query: AIQQuery): GraphNode[] {
-    if (!query.where?.start) {
-      throw new Error('GRAPH_TRAVERSE requires start node');
+  /**
+   * Version of the write that last changed a node (0 if never written)
+   */
+  getNodeVersion(id: string | number): number {
+    return Math.max(this.versions.get(String(id)) || 0, this.clearedVersion);
+  }
+
+  /**
+   * Apply a transaction's writes in order. A write that fails (schema,
+   * unique index) undoes the ones before it; the WAL gets one record for
+   * the whole transaction, so recovery replays all of it or nothing.
+   */
+  private commitTransaction(transaction: Transaction, writes: Map<string, GraphNode | null>): void {
+    this.transactions.delete(transaction);
+
+    const conflicts = Array.from(writes.keys()).filter(id => this.getNodeVersion(id) > transaction.startVersion);
+    if (conflicts.length > 0) {
+      throw new TransactionConflictError(conflicts);
     }
 
-    const relationships = query.where.path || [];
-    return this.traverse(query.where.start, relationships);
-  }
-
-  private applyFilters(nodes: GraphNode[], filters: Record<string, any>): GraphNode[] {
-    return nodes.filter(node => {
-      for (const [key, condition] of Object.entries(filters)) {
-        if (typeof condition === 'object') {
-          // Handle operators like { $gt: 5, $lt: 10 }
-          for (const [op, value] of Object.entries(condition)) {
-            const nodeValue = node.properties[key] as any;
-            const compareValue = value as any;
-            switch (op) {
-              case '$gt':
-                if (!(nodeValue > compareValue)) return false;
-                break;
-              case '$gte':
-                if (!(nodeValue >= compareValue)) return false;
-                break;
-              case '$lt':
-                if (!(nodeValue < compareValue)) return false;
-                break;
-              case '$lte':
-                if (!(nodeValue <= compareValue)) return false;
-                break;
-              case '$ne':
-                if (!(nodeValue !== compareValue)) return false;
-                break;
-            }
+    this.stamped(() => {
+      const records: WALRecord[] = [];
+      const undo: {
+        id: string;
+        previous: GraphNode | undefined;
+        versions: NodeVersion[] | undefined;
+        version: number | undefined;
+      }[] = [];
+      const changeCount = this.pendingChanges.length;
+      try {
+        for (const [id, node] of writes) {
+          const previous = this.nodes.get(id);
+          const versions = this.history.get(id);
+          const version = this.versions.get(id);
+          if (node) {
+            this.checkSchema(node);
+            this.applyPutNode(node);
+            records.push({ op: 'addNode', node });
+          } else if (previous) {
+            this.applyRemoveNode(id, 'dangling');
+            records.push({ op: 'removeNode', id, policy: 'dangling' });
+          } else {
+            continue;
+          }
+          undo.push({ id, previous, versions, version });
+        }
+      } catch (error) {
+        for (const { id, previous, versions, version } of undo.reverse()) {
+          if (previous) {
+            this.applyPutNode(previous);
+          } else {
+            this.applyRemoveNode(id, 'dangling');
+          }
+          if (versions) {
+            this.history.set(id, versions);
+          } else {
+            this.history.delete(id);
+          }
+          // Unchanged nodes keep their version, so open transactions that
+          // read them do not conflict
+          if (version !== undefined) {
+            this.versions.set(id, version);
+          } else {
+            this.versions.delete(id);
           }
-        } else {
-          if (node.properties[key] !== condition) return false;
         }
+        // Nothing was committed, so there is nothing to report
+        this.pendingChanges.length = changeCount;
+        throw error;
+      }
+
+      if (records.length > 0) {
+        this.log({ op: 'transaction', records });
       }
-      return true;
     });
   }
 
-  private applySort(nodes: GraphNode[], sort: any): GraphNode[] {
-    const { field, order } = sort;
-    return nodes.sort((a, b) => {
-      const aVal = a.properties[field];
-      const bVal = b.properties[field];
-      const comparison = aVal < bVal ? -1 : aVal > bVal ? 1 : 0;
-      return order === 'DESC' ? -comparison : comparison;
-    });
+  /**
+   * Give the writes fn makes an origin (merged into any outer one), recorded
+   * in node histories, change events and the WAL. Follows fn's async work.
+   */
+  withOrigin<T>(origin: ChangeOrigin, fn: () => T): T {
+    return this.origins.run({ ...this.origins.getStore(), ...origin }, fn);
   }
 
-  private applyCompute(nodes: GraphNode[], compute: Record<string, any>): any[] {
-    const results: any = {};
+  /**
+   * Versions of a node, oldest first: every write kept while history is on,
+   * up to historyLimit per node
+   */
+  getHistory(id: string | number): NodeVersion[] {
+    return [...(this.history.get(String(id)) || [])];
+  }
 
-    for (const [key, expr] of Object.entries(compute)) {
-      const func = expr.function;
-      const field = expr.field;
+  /**
+   * A node as it was at a time (undefined if it did not exist then, or its
+   * versions from then are no longer kept). Throws when history is off.
+   */
+  getNodeAsOf(id: string | number, timestamp: number | Date): GraphNode | undefined {
+    this.assertHistoryKept();
+    const at = timestamp instanceof Date ? timestamp.getTime() : timestamp;
+    const versions = this.history.get(String(id));
+    // Never written while history was kept: nothing is known of its past
+    if (!versions) return undefined;
 
-      switch (func) {
-        case 'COUNT':
-          results[key] = nodes.length;
-          break;
-        case 'SUM':
-          results[key] = nodes.reduce(
-            (sum, node) => sum + (node.properties[field] || 0),
-            0
-          );
-          break;
-        case 'AVG':
-          results[key] =
-            nodes.reduce((sum, node) => sum + (node.properties[field] || 0), 0) /
-            nodes.length;
-          break;
-        case 'MIN':
-          results[key] = Math.min(
-            ...nodes.map(node => node.properties[field] || Infinity)
-          );
-          break;
-        case 'MAX':
-          results[key] = Math.max(
-            ...nodes.map(node => node.properties[field] || -Infinity)
-          );
-          break;
-      }
+    for (let i = versions.length - 1; i >= 0; i--) {
+      if (versions[i].timestamp <= at) return versions[i].node || undefined;
     }
-
-    return [results];
+    return undefined;
   }
 
-  private cosineSimilarity(a: number[], b: number[]): number {
-    if (a.length !== b.length) return 0;
+  private assertHistoryKept(): void {
+    if (this.historyLimit === 0) {
+      throw new Error('AS OF needs node history, which is off (historyLimit: 0)');
+    }
+  }
 
-    let dotProduct = 0;
-    let magnitudeA = 0;
-    let magnitudeB = 0;
+  private nodesAsOf(type: string | undefined, at: number): GraphNode[] {
+    const current = type ? this.typeIndex.get(type) || [] : this.nodes.keys();
+    const ids = new Set([...current, ...this.history.keys()]);
 
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i];
-      magnitudeA += a[i] * a[i];
-      magnitudeB += b[i] * b[i];
+    const nodes: GraphNode[] = [];
+    for (const id of ids) {
+      const node = this.getNodeAsOf(id, at);
+      if (node && (!type || node.type === type)) nodes.push(node);
     }
+    return nodes;
+  }
 
-    magnitudeA = Math.sqrt(magnitudeA);
-    magnitudeB = Math.sqrt(magnitudeB);
-
-    if (magnitudeA === 0 || magnitudeB === 0) return 0;
+  /**
+   * Run writes under one time and origin, so a cascade or a commit is a
+   * single point in the history (nested calls join the outer write)
+   */
+  private stamped<T>(apply: () => T): T {
+    if (this.writeStamp) return apply();
 
-    return dotProduct / (magnitudeA * magnitudeB);
+    this.writeStamp = { at: Date.now(), origin: this.origins.getStore(), version: this.commitVersion };
+    try {
+      return apply();
+    } finally {
+      this.writeStamp = null;
+    }
   }
 
   /**
-   * Cache management
+   * Record a write: open transactions keep the node's previous state and
+   * the node gets a new version
    */
-  private getFromCache(key: string): any | null {
-    const cached = this.cache.get(key);
-    if (!cached) return null;
+  private trackWrite(nodeId: string, previous: GraphNode | undefined): void {
+    // Loading the snapshot is not a write
+    if (this.recovering && !this.writeStamp) return;
 
-    const now = Date.now();
-    if (now - cached.timestamp > cached.ttl) {
-      this.cache.delete(key);
-      return null;
+    for (const transaction of this.transactions) {
+      transaction.capture(nodeId, previous);
     }
+    this.versions.set(nodeId, ++this.commitVersion);
+  }
 
-    return cached.data;
+  private indexesOf(type: string): SecondaryIndex[] {
+    return Array.from(this.indexes.values()).filter(index => index.type === type);
   }
 
-  private setCache(key: string, data: any, ttl: number): void {
-    this.cache.set(key, {
-      data,
-      ttl,
-      timestamp: Date.now()
-    });
+  private requireNode(id: string | number): GraphNode {
+    const node = this.nodes.get(String(id));
+    if (!node) {
+      throw new Error(`Node not found: ${id}`);
+    }
+    return node;
+  }
+
+  private applyPutNode(node: GraphNode): GraphNode {
+    node = this.withDerivedEmbedding(node);
+    const nodeId = String(node.id);
+    const previous = this.nodes.get(nodeId);
+
+    if (node.embedding) {
+      const index = this.vectorIndexes.get(node.type);
+      if (index && !index.accepts(nodeId, node.embedding)) {
+        throw new Error(
+          `Embedding dimension mismatch for ${node.type} ${nodeId}: expected ${index.getDimensions()}, got ${node.embedding.length}`
+        );
+      }
+    }
+
+    for (const index of this.indexesOf(node.type)) {
+      const holder = index.conflict(nodeId, node);
+      if (holder !== undefined) {
+        throw new Error(
+          `Unique index ${index.name} violated: ${node.type} ${nodeId} has the same ${index.fields.join(', ')} as node ${holder}`
+        );
+      }
+    }
+
+    this.trackWrite(nodeId, previous);
+    if (previous) {
+      this.unindexNode(nodeId, previous);
+    }
+
+    this.nodes.set(nodeId, node);
+    this.indexNode(nodeId, node);
+    this.invalidateCache(previous, node);
+    this.recordWrite(previous, node);
+    return node;
   }
 
   /**
-   * Get statistics
+   * Embed the configured text properties of a node. Nodes without any of
+   * that text keep whatever embedding they were given.
    */
-  getStats(): any {
-    return {
-      totalNodes: this.nodes.size,
-      nodesByType: Array.from(this.typeIndex.entries()).map(([type, ids]) => ({
-        type,
-        count: ids.size
-      })),
-      cacheSize: this.cache.size,
-      indexes: {
-        types: this.typeIndex.size,
-        properties: this.propertyIndex.size,
-        edges: this.edgeIndex.size
+  private withDerivedEmbedding(node: GraphNode): GraphNode {
+    const fields = this.embeddedProperties[node.type];
+    if (!this.embeddingProvider || !fields) return node;
+
+    const embedding = this.embeddingProvider.embed(textOf(node, fields));
+
+    return embedding ? { ...node, embedding } : node;
+  }
+
+  private applyRemoveNode(nodeId: string, policy: EdgePolicy): void {
+    const node = this.nodes.get(nodeId);
+    if (!node) return;
+
+    this.trackWrite(nodeId, node);
+    this.unindexNode(nodeId, node);
+    this.nodes.delete(nodeId);
+    this.invalidateCache(node, undefined);
+    this.recordWrite(node, undefined);
+
+    if (policy === 'cascade') {
+      for (const sourceId of this.getInboundSources(nodeId)) {
+        const source = this.nodes.get(sourceId);
+        if (!source) continue;
+        const edges = source.edges.filter(edge => String(edge.target) !== nodeId);
+        this.applyPutNode({ ...source, edges });
       }
-    };
+    }
+  }
+
+  private indexNode(nodeId: string, node: GraphNode): void {
+    // Update type index
+    if (!this.typeIndex.has(node.type)) {
+      this.typeIndex.set(node.type, new Set());
+    }
+    this.typeIndex.get(node.type)!.add(nodeId);
+
+    for (const key of Object.keys(node.properties)) {
+      this.propertyCounts.set(key, (this.propertyCounts.get(key) || 0) + 1);
+    }
+
+    // Update the type's secondary indexes
+    for (const index of this.indexesOf(node.type)) {
+      index.add(nodeId, node);
+    }
+
+    // Update edge index
+    for (const edge of node.edges) {
+      const edgeKey = `${nodeId}:${edge.relationship}`;
+      if (!this.edgeIndex.has(edgeKey)) {
+        this.edgeIndex.set(edgeKey, new Set());
+      }
+      this.edgeIndex.get(edgeKey)!.add(String(edge.target));
+
+      // Update inbound index (target -> relationship -> sources)
+      const targetId = String(edge.target);
+      if (!this.inboundIndex.has(targetId)) {
+        this.inboundIndex.set(targetId, new Map());
+      }
+      const inbound = this.inboundIndex.get(targetId)!;
+      if (!inbound.has(edge.relationship)) {
+        inbound.set(edge.relationship, new Set());
+      }
+      inbound.get(edge.relationship)!.add(nodeId);
+
+      this.relationshipIndex.set(edge.relationship, (this.relationshipIndex.get(edge.relationship) || 0) + 1);
+    }
+
+    // Update full-text index for the node's type
+    const textIndex = this.textIndexes.get(node.type);
+    if (textIndex) {
+      textIndex.index.add(nodeId, textOf(node, textIndex.properties));
+    }
+
+    // Update vector index for the node's type
+    if (node.embedding) {
+      this.vectorIndexOf(node.type).add(nodeId, node.embedding);
+    }
   }
 
   /**
-   * Clear all data
+   * Vector index of a type, created with the type's settings on first use
    */
-  clear(): void {
-    this.nodes.clear();
-    this.typeIndex.clear();
-    this.edgeIndex.clear();
-    this.propertyIndex.clear();
-    this.cache.clear();
+  private vectorIndexOf(type: string): HNSWIndex {
+    let vectorIndex = this.vectorIndexes.get(type);
+    if (!vectorIndex) {
+      vectorIndex = new HNSWIndex({
+        ...this.vectorIndexOptions,
+        ...this.vectorIndexByType[type]
+      });
+      this.vectorIndexes.set(type, vectorIndex);
+    }
+    return vectorIndex;
+  }
+
+  private unindexNode(nodeId: string, node: GraphNode): void {
+    removeFromIndex(this.typeIndex, node.type, nodeId);
+
+    for (const key of Object.keys(node.properties)) {
+      const remaining = (this.propertyCounts.get(key) || 1) - 1;
+      if (remaining === 0) this.propertyCounts.delete(key);
+      else this.propertyCounts.set(key, remaining);
+    }
+
+    for (const index of this.indexesOf(node.type)) {
+      index.remove(nodeId, node);
+    }
+
+    // Edge index entries are keyed by source, so drop them wholesale
+    for (const edge of node.edges) {
+      this.edgeIndex.delete(`${nodeId}:${edge.relationship}`);
+
+      const remaining = (this.relationshipIndex.get(edge.relationship) || 1) - 1;
+      if (remaining === 0) this.relationshipIndex.delete(edge.relationship);
+      else this.relationshipIndex.set(edge.relationship, remaining);
+
+      const inbound = this.inboundIndex.get(String(edge.target));
+      if (!inbound) continue;
+      removeFromIndex(inbound, edge.relationship, nodeId);
+      if (inbound.size === 0) {
+        this.inboundIndex.delete(String(edge.target));
+      }
+    }
+
+    this.textIndexes.get(node.type)?.index.remove(nodeId);
+
+    const vectorIndex = this.vectorIndexes.get(node.type);
+    if (vectorIndex) {
+      vectorIndex.remove(nodeId);
+      if (vectorIndex.size() === 0) {
+        this.vectorIndexes.delete(node.type);
+      }
+    }
+  }
+
+  /**
+   * Get a node by ID
+   */
+  getNode(id: string | number): GraphNode | undefined {
+    return this.nodes.get(String(id));
+  }
+
+  /**
+   * Get all nodes of a specific type
+   */
+  getNodesByType(type: string): GraphNode[] {
+    const nodeIds = this.typeIndex.get(type);
+    if (!nodeIds) return [];
+
+    return Array.from(nodeIds)
+      .map(id => this.nodes.get(id))
+      .filter((node): node is GraphNode => node !== undefined);
+  }
+
+  /**
+   * Get every node in the graph
+   */
+  getAllNodes(): GraphNode[] {
+    return Array.from(this.nodes.values());
+  }
+
+  /**
+   * Find nodes by property value, through an index led by the property
+   * where the type has one
+   */
+  findNodesByProperty(key: string, value: any): GraphNode[] {
+    const results: GraphNode[] = [];
+
+    for (const [type, ids] of this.typeIndex) {
+      const index = this.indexesOf(type).find(candidate => candidate.fields[0] === key);
+      for (const id of index ? index.scan([value]) : ids) {
+        const node = this.nodes.get(id);
+        if (node && node.properties[key] === value) results.push(node);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Graph traversal - follow relationships
+   */
+  traverse(
+    startNodeId: string | number,
+    relationships: string[],
+    maxDepth: number = 2,
+    direction: TraversalDirection = 'out'
+  ): GraphNode[] {
+    const visited = new Set<string>();
+    const results: GraphNode[] = [];
+    const queue: { nodeId: string; depth: number }[] = [
+      { nodeId: String(startNodeId), depth: 0 }
+    ];
+
+    while (queue.length > 0) {
+      const { nodeId, depth } = queue.shift()!;
+
+      if (visited.has(nodeId) || depth > maxDepth) continue;
+      visited.add(nodeId);
+
+      const node = this.nodes.get(nodeId);
+      if (!node) continue;
+
+      if (depth > 0) {
+        results.push(node);
+      }
+
+      // Follow specified relationships
+      if (direction === 'out' || direction === 'both') {
+        for (const edge of node.edges) {
+          if (relationships.includes(edge.relationship)) {
+            queue.push({
+              nodeId: String(edge.target),
+              depth: depth + 1
+            });
+          }
+        }
+      }
+
+      // Walk edges backwards through the inbound index
+      if (direction === 'in' || direction === 'both') {
+        for (const sourceId of this.getInboundSources(nodeId, relationships)) {
+          queue.push({ nodeId: sourceId, depth: depth + 1 });
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Path pattern matching - returns one { alias: node } tuple per matching path
+   *
+   * Paths are simple: a node is bound at most once per path. Binding starts
+   * at the anchor node (the first unless given; candidates default to its
+   * type) and extends to the right of it, then to the left.
+   */
+  matchPattern(pattern: PathPattern, anchor = 0, candidates?: GraphNode[]): Record<string, GraphNode>[] {
+    if (pattern.nodes.length !== pattern.hops.length + 1) {
+      throw new Error('Path pattern needs exactly one more node than hops');
+    }
+
+    const anchorNode = pattern.nodes[anchor];
+    if (!anchorNode) {
+      throw new Error(`Pattern anchor out of range: ${anchor}`);
+    }
+    const seeds =
+      candidates || (anchorNode.type ? this.getNodesByType(anchorNode.type) : Array.from(this.nodes.values()));
+
+    const order = [anchor];
+    for (let i = anchor + 1; i < pattern.nodes.length; i++) order.push(i);
+    for (let i = anchor - 1; i >= 0; i--) order.push(i);
+
+    const results: Record<string, GraphNode>[] = [];
+    const path: (GraphNode | undefined)[] = new Array(pattern.nodes.length);
+    const extend = (step: number) => {
+      if (step === order.length) {
+        const tuple: Record<string, GraphNode> = {};
+        pattern.nodes.forEach((patternNode, i) => (tuple[patternNode.alias] = path[i]!));
+        results.push(tuple);
+        return;
+      }
+
+      // Left of the anchor, hops are walked against their direction
+      const position = order[step];
+      const from = position > anchor ? position - 1 : position + 1;
+      const hop = pattern.hops[Math.min(position, from)];
+      const direction = position > from ? hop.direction : reverseDirection(hop.direction);
+
+      for (const neighbourId of this.neighbourIds(path[from]!, hop.relationship, direction)) {
+        const neighbour = this.nodes.get(neighbourId);
+        if (!neighbour || path.includes(neighbour)) continue;
+        if (!this.matchesPatternNode(neighbour, pattern.nodes[position])) continue;
+        path[position] = neighbour;
+        extend(step + 1);
+        path[position] = undefined;
+      }
+    };
+
+    for (const node of seeds) {
+      if (this.matchesPatternNode(node, anchorNode)) {
+        path[anchor] = node;
+        extend(1);
+        path[anchor] = undefined;
+      }
+    }
+
+    return results;
+  }
+
+  private matchesPatternNode(node: GraphNode, patternNode: PatternNode): boolean {
+    if (patternNode.type && node.type !== patternNode.type) return false;
+    if (patternNode.where && !matchesConditions(node, patternNode.where)) return false;
+    return !patternNode.filter || matchesConditions(node, patternNode.filter);
+  }
+
+  private neighbourIds(node: GraphNode, relationship: string, direction: TraversalDirection): string[] {
+    const ids = new Set<string>();
+
+    if (direction === 'out' || direction === 'both') {
+      for (const edge of node.edges) {
+        if (edge.relationship === relationship) {
+          ids.add(String(edge.target));
+        }
+      }
+    }
+
+    if (direction === 'in' || direction === 'both') {
+      this.getInboundSources(node.id, [relationship]).forEach(id => ids.add(id));
+    }
+
+    return Array.from(ids);
+  }
+
+  /**
+   * IDs of nodes with an edge pointing at nodeId (optionally limited to relationships)
+   */
+  getInboundSources(nodeId: string | number, relationships?: string[]): string[] {
+    const inbound = this.inboundIndex.get(String(nodeId));
+    if (!inbound) return [];
+
+    const sources = new Set<string>();
+    for (const [relationship, ids] of inbound) {
+      if (relationships && !relationships.includes(relationship)) continue;
+      ids.forEach(id => sources.add(id));
+    }
+    return Array.from(sources);
+  }
+
+
+  /**
+   * Vector similarity search, approximate via the per-type HNSW indexes
+   * unless options.exact is set
+   */
+  vectorSearch(
+    queryEmbedding: number[],
+    type?: string,
+    limit: number = 10,
+    threshold: number = 0.7,
+    options: VectorSearchOptions = {}
+  ): GraphNode[] {
+    return this.vectorSearchScored(queryEmbedding, type, limit, threshold, options).map(
+      item => item.node
+    );
+  }
+
+  /**
+   * Vector similarity search returning the similarity score with each node.
+   * Scores are in the metric of each type's index (see distanceToSimilarity).
+   */
+  vectorSearchScored(
+    queryEmbedding: number[],
+    type?: string,
+    limit: number = 10,
+    threshold: number = 0.7,
+    options: VectorSearchOptions = {}
+  ): ScoredNode[] {
+    const types = type ? [type] : Array.from(this.vectorIndexes.keys());
+    const results: ScoredNode[] = [];
+
+    for (const indexType of types) {
+      const index = this.vectorIndexes.get(indexType);
+      if (!index) continue;
+      const metric = index.getMetric();
+
+      if (options.exact) {
+        for (const id of this.typeIndex.get(indexType) || []) {
+          const node = this.nodes.get(id);
+          if (!node?.embedding || node.embedding.length !== queryEmbedding.length) continue;
+          const distance = vectorDistance(metric, queryEmbedding, node.embedding);
+          results.push({ node, similarity: distanceToSimilarity(metric, distance) });
+        }
+        continue;
+      }
+
+      for (const match of index.search(queryEmbedding, limit, options.ef)) {
+        const node = this.nodes.get(match.id);
+        if (node) {
+          results.push({ node, similarity: distanceToSimilarity(metric, match.distance) });
+        }
+      }
+    }
+
+    return results
+      .filter(item => item.similarity >= threshold)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+
+  /**
+   * Execute AIQ query
+   */
+  executeQuery(query: AIQQuery): any[] {
+    if (query.after !== undefined) query = this.pageQuery(query);
+    if (query.projection && !READ_OPERATIONS.includes(query.operation)) {
+      throw new Error(`RETURN is not supported with ${query.operation}`);
+    }
+
+    // Writes bypass the cache (and invalidate it through the mutation APIs)
+    if (query.operation === 'INSERT' || query.operation === 'UPDATE' || query.operation === 'DELETE') {
+      return [this.stamped(() => this.executeWrite(query))];
+    }
+    if (query.operation === 'CREATE_INDEX' || query.operation === 'DROP_INDEX') {
+      return [this.executeIndexStatement(query)];
+    }
+    if (query.operation === 'TRANSACTION') {
+      return [this.executeTransaction(query)];
+    }
+
+    if (query.asOf !== undefined) this.checkAsOf(query);
+
+    // The TTL hint is not part of the result
+    const { cacheTtl, ...cacheable } = query;
+    const cacheKey = JSON.stringify(cacheable);
+    if (cacheTtl !== 0) {
+      const cached = this.cache.get(cacheKey);
+      if (cached) return cached;
+    }
+
+    const results = this.runPlan(this.plan(query).root, query, false);
+    this.cache.set(cacheKey, results, cacheTtl ?? this.cache.defaultTtl, this.cacheDependencies(query));
+
+    return results;
+  }
+
+  /**
+   * Run a read query one page at a time: up to LIMIT rows after its AFTER
+   * cursor, in SORT BY order (id, or rank for SEARCH, without one) with
+   * ties broken by id, and the cursor to pass as AFTER for the next page
+   * (null on the last one). Queries that cannot be paged run as usual with
+   * no next cursor, unless they have an AFTER cursor.
+   */
+  executePage(query: AIQQuery): Page {
+    if (query.after === undefined && this.pageError(query)) {
+      return { rows: this.executeQuery(query), nextCursor: null };
+    }
+
+    const paged = this.pageQuery(query);
+    if (!paged.limit) {
+      return { rows: this.executeQuery(paged), nextCursor: null };
+    }
+
+    // One row past the page tells whether another page follows; the
+    // cursor comes from the node, which RETURN may not keep the id of
+    const { projection, ...unprojected } = paged;
+    const rows = this.executeQuery({ ...unprojected, limit: paged.limit + 1 });
+    const page = rows.slice(0, paged.limit);
+    const nextCursor = rows.length > paged.limit ? encodeCursor(paged.sort!, page[page.length - 1]) : null;
+    return { rows: projection ? this.project(page, projection) : page, nextCursor };
+  }
+
+  /**
+   * A read run page by page, pageSize rows at a time and the query's LIMIT
+   * capping the total; each page is only run when the next one is asked
+   * for. Queries that cannot be paged come as one page.
+   */
+  *executePages(query: AIQQuery, pageSize: number): Generator<Page> {
+    if (query.limit === 0 || (query.after === undefined && this.pageError(query))) {
+      yield this.executePage(query);
+      return;
+    }
+
+    let remaining = query.limit ?? Infinity;
+    let after = query.after;
+    for (;;) {
+      const page = this.executePage({ ...query, after, limit: Math.min(pageSize, remaining) });
+      yield page;
+      remaining -= page.rows.length;
+      if (!page.nextCursor || remaining <= 0) return;
+      after = page.nextCursor;
+    }
+  }
+
+  /**
+   * The query in the total order its pages follow; throws when it cannot
+   * be paged or its cursor is for another order
+   */
+  private pageQuery(query: AIQQuery): AIQQuery {
+    const error = this.pageError(query);
+    if (error) throw new Error(error);
+
+    const sort = query.sort || (query.search ? { field: 'score', order: 'DESC' as const } : ID_ORDER);
+    if (query.after !== undefined) {
+      const cursor = decodeCursor(query.after);
+      if (cursor.field !== sort.field || cursor.order !== sort.order) {
+        throw new Error(
+          `Cursor is for SORT BY ${cursor.field} ${cursor.order}, the query sorts by ${sort.field} ${sort.order}`
+        );
+      }
+    }
+    return query.sort ? query : { ...query, sort };
+  }
+
+  /**
+   * Pages are keyed by node id: FETCH and GRAPH_TRAVERSE results that are
+   * nodes. Similarity ranks only the nearest LIMIT candidates, so later
+   * pages would come out empty.
+   */
+  private pageError(query: AIQQuery): string | null {
+    if (query.operation !== 'FETCH' && query.operation !== 'GRAPH_TRAVERSE') {
+      return `${query.operation} results cannot be paged`;
+    }
+    if (query.groupBy) return 'GROUP BY results cannot be paged';
+    if (query.similar) return 'SIMILAR TO results cannot be paged';
+    return null;
+  }
+
+  /**
+   * Cost-based execution plan for a query (estimates only)
+   */
+  plan(query: AIQQuery): QueryPlan {
+    return this.planner.plan(query.after !== undefined ? this.pageQuery(query) : query);
+  }
+
+  /**
+   * Plan and run a read query, recording actual rows and time (including
+   * inputs) per operator next to the estimates. Writes are planned but not
+   * executed. Bypasses the result cache.
+   */
+  explain(query: AIQQuery): QueryPlan {
+    if (query.after !== undefined) query = this.pageQuery(query);
+    if (query.asOf !== undefined) this.checkAsOf(query);
+    const plan = this.plan(query);
+    if (plan.root.operator === 'Write') return plan;
+
+    const start = performance.now();
+    const rows = this.runPlan(plan.root, query, true);
+    plan.actualRows = rows.length;
+    plan.totalTimeMs = performance.now() - start;
+    return plan;
+  }
+
+  private runPlan(node: PlanNode, query: AIQQuery, analyze: boolean): any[] {
+    const start = analyze ? performance.now() : 0;
+    const rows = this.runOperator(node, query, analyze);
+    if (analyze) {
+      node.actualRows = rows.length;
+      node.actualTimeMs = performance.now() - start;
+    }
+    return rows;
+  }
+
+  private runOperator(node: PlanNode, query: AIQQuery, analyze: boolean): any[] {
+    const ofType = (candidate: GraphNode | undefined, type?: string): candidate is GraphNode =>
+      candidate !== undefined && (!type || candidate.type === type);
+
+    switch (node.operator) {
+      case 'TypeScan':
+        return node.type ? this.getNodesByType(node.type) : this.getAllNodes();
+
+      case 'HistoryScan':
+        return this.nodesAsOf(node.type, node.asOf);
+
+      case 'IdLookup':
+        return node.ids.map(id => this.nodes.get(String(id))).filter(candidate => ofType(candidate, node.type));
+
+      case 'IndexLookup':
+      case 'IndexScan': {
+        const index = this.indexes.get(node.index);
+        if (!index) {
+          throw new Error(`Index not found: ${node.index}`);
+        }
+        const ids = new Set<string>();
+        for (const prefix of node.prefixes) {
+          index.scan(prefix, node.range, node.order === 'DESC').forEach(id => ids.add(id));
+        }
+        const nodes = Array.from(ids, id => this.nodes.get(id)).filter(candidate => ofType(candidate, node.type));
+        // Index entries are in key order; equal sort values still go by id
+        return node.order ? this.applySort(nodes, query.sort!) : nodes;
+      }
+
+      case 'Traverse':
+        return this.executeTraverse(query);
+
+      case 'Algorithm':
+        return this.executeCall(query);
+
+      case 'PatternExpand':
+        return this.matchPattern(query.pattern!, node.anchor, this.runPlan(node.input, query, analyze));
+
+      case 'Filter':
+        return this.applyFilters(this.runPlan(node.input, query, analyze), node.conditions);
+
+      // Keep full-text matches only, ranked by BM25
+      case 'TextSearch':
+        return this.rankByText(query, this.runPlan(node.input, query, analyze));
+
+      // Rank by vector similarity (candidates are already filtered)
+      case 'VectorRank':
+        return this.rankBySimilarity(query, this.runPlan(node.input, query, analyze), node.unrestricted);
+
+      case 'Aggregate':
+        return this.applyCompute(this.runPlan(node.input, query, analyze), query.compute || {}, query.groupBy);
+
+      case 'Sort': {
+        const rows = this.runPlan(node.input, query, analyze);
+        return query.operation === 'MATCH' ? this.sortMatches(rows, query.sort!) : this.applySort(rows, query.sort!);
+      }
+
+      case 'Cursor':
+        return this.runPlan(node.input, query, analyze).filter(row => isAfter(row, node.cursor));
+
+      case 'Limit':
+        return this.runPlan(node.input, query, analyze).slice(0, node.limit);
+
+      case 'Project':
+        return this.project(this.runPlan(node.input, query, analyze), query.projection!);
+
+      case 'Write':
+        throw new Error('Write plans are executed through executeQuery');
+    }
+  }
+
+  /**
+   * AS OF reads the node history, which has no text, vector or edge
+   * indexes: FETCH with WHERE, FILTER, COMPUTE over properties, GROUP BY,
+   * SORT BY and LIMIT
+   */
+  private checkAsOf(query: AIQQuery): void {
+    this.assertHistoryKept();
+    if (query.operation !== 'FETCH') {
+      throw new Error(`AS OF is not supported with ${query.operation}`);
+    }
+    if (query.search || query.similar) {
+      throw new Error(`AS OF is not supported with ${query.search ? 'SEARCH' : 'SIMILAR TO'}`);
+    }
+    for (const [key, expression] of Object.entries(query.compute || {})) {
+      if (this.resolveComputeField(expression.field).relation) {
+        throw new Error(`AS OF cannot aggregate over relationships (COMPUTE ${key})`);
+      }
+    }
+    const related = this.projectedRelations(query.projection || {});
+    if (related.length > 0) {
+      throw new Error(`AS OF cannot follow relationships (RETURN ${related.join(', ')})`);
+    }
+    if (!Number.isFinite(query.asOf)) {
+      throw new Error('AS OF needs a valid timestamp');
+    }
+  }
+
+  /**
+   * Node types and properties a cached read depends on. Traversals,
+   * algorithms and similarity to a node reference can reach any type;
+   * results that are whole nodes depend on every property.
+   */
+  private cacheDependencies(query: AIQQuery): CacheDependencies {
+    if (query.operation === 'MATCH') {
+      const types = query.pattern!.nodes.map(node => node.type);
+      return { types: types.every(Boolean) ? (types as string[]) : null, properties: null };
+    }
+    if (query.operation !== 'FETCH' || query.similar?.to !== undefined) {
+      return { types: null, properties: null };
+    }
+
+    let types: string[] | null = [query.target];
+    const properties = [...conditionFields(query.where), ...conditionFields(query.filter), ...(query.groupBy || [])];
+    if (query.sort) properties.push(query.sort.field);
+    if (query.similar) properties.push('$embedding');
+    if (query.search) properties.push(...(this.textIndexes.get(query.target)?.properties || []));
+
+    for (const expression of Object.values(query.compute || {})) {
+      const { relation, field } = this.resolveComputeField(expression.field);
+      if (field) properties.push(field);
+      if (relation) {
+        // Neighbours over a relationship can be of any type
+        types = relation.type && types ? [...types, relation.type] : null;
+        properties.push('$edges');
+      }
+    }
+
+    if (query.projection) types = this.projectionDependencies(query.projection, types, properties);
+
+    // Grouped and projected rows hold only the fields they name
+    return { types, properties: query.groupBy || query.projection ? properties : null };
+  }
+
+  /**
+   * Adds the properties a projection reads; returns the types it reaches
+   * through nested relations (null: any type)
+   */
+  private projectionDependencies(projection: Projection, types: string[] | null, properties: string[]): string[] | null {
+    for (const field of Object.values(projection)) {
+      const name = (typeof field === 'string' ? field : field.from).split('.')[0];
+      const relation = typeof field === 'string' ? undefined : this.projectedRelation(field);
+      if (relation) {
+        types = relation.type && types ? [...types, relation.type] : null;
+        properties.push('$edges');
+        types = this.projectionDependencies((field as NestedProjection).fields, types, properties);
+      } else {
+        properties.push(name);
+      }
+    }
+    return types;
+  }
+
+  /**
+   * RETURN: one document per row with the projected fields (missing ones
+   * left out)
+   */
+  private project(rows: any[], projection: Projection): Record<string, any>[] {
+    return rows.map(row => {
+      const document: Record<string, any> = {};
+      for (const [key, field] of Object.entries(projection)) {
+        const value = typeof field === 'string' ? pathValue(row, field) : this.projectNested(row, field);
+        if (value !== undefined) document[key] = value;
+      }
+      return document;
+    });
+  }
+
+  /**
+   * A nested projection shapes the object(s) a field holds (a MATCH alias,
+   * an object property) or, on a node without that field, the nodes
+   * related through the relationship or type it names
+   */
+  private projectNested(row: any, nested: NestedProjection): any {
+    let value = pathValue(row, nested.from);
+    if (value === undefined && isNode(row)) {
+      const relation = this.projectedRelation(nested);
+      if (relation) value = this.relatedNodes(row, relation);
+    }
+
+    if (Array.isArray(value)) {
+      return this.project(value.filter(item => item !== null && typeof item === 'object'), nested.fields);
+    }
+    return value !== null && typeof value === 'object' && !(value instanceof Date)
+      ? this.project([value], nested.fields)[0]
+      : value;
+  }
+
+  private projectedRelation(nested: NestedProjection): Relation | undefined {
+    return nested.from.includes('.') ? undefined : this.resolveComputeField(nested.from).relation;
+  }
+
+  /**
+   * Nested projections (at any depth) that name relationships or types
+   */
+  private projectedRelations(projection: Projection): string[] {
+    return Object.entries(projection).flatMap(([key, field]) => {
+      if (typeof field === 'string') return [];
+      return this.projectedRelation(field) ? [key] : this.projectedRelations(field.fields);
+    });
+  }
+
+  private rankByText(query: AIQQuery, candidates: GraphNode[]): SearchResultNode[] {
+    const entry = this.textIndexes.get(query.target);
+    if (!entry) {
+      throw new Error(`No full-text index on type: ${query.target}`);
+    }
+
+    const candidateIds = new Set(candidates.map(node => String(node.id)));
+    return entry.index
+      .search(query.search!.query, { prefix: query.search!.prefix })
+      .filter(match => candidateIds.has(match.id))
+      .map(match => ({ ...this.nodes.get(match.id)!, score: match.score }));
+  }
+
+  /**
+   * Score candidates against the SIMILAR TO / NEAR vector. Selective
+   * candidate sets are scored exactly (pre-filter); broad ones are searched
+   * through the type's HNSW index and intersected with the candidates
+   * (post-filter), falling back to exact scoring if too few survive.
+   */
+  private rankBySimilarity(
+    query: AIQQuery,
+    candidates: GraphNode[],
+    unrestricted: boolean
+  ): ScoredGraphNode[] {
+    const spec = query.similar!;
+    let queryVector = spec.vector;
+    let excludeId: string | undefined;
+
+    if (spec.text !== undefined) {
+      queryVector = this.embedText(spec.text) || undefined;
+      if (!queryVector) {
+        throw new Error(`Nothing to embed in "${spec.text}"`);
+      }
+    }
+
+    if (spec.to !== undefined) {
+      const reference = this.nodes.get(String(this.resolveNodeRef(spec.to)));
+      if (!reference) {
+        throw new Error(`SIMILAR TO node not found: ${spec.to}`);
+      }
+      if (!reference.embedding) {
+        throw new Error(`SIMILAR TO node has no embedding: ${spec.to}`);
+      }
+      queryVector = reference.embedding;
+      excludeId = String(reference.id);
+    }
+    if (!queryVector || queryVector.length === 0) {
+      throw new Error('Similarity clause requires a node reference, text or a vector');
+    }
+
+    const k = query.limit ?? 10;
+    const threshold = spec.threshold ?? -Infinity;
+    const index = this.vectorIndexes.get(query.target);
+    const candidateIds = new Set(candidates.map(node => String(node.id)));
+    if (excludeId) candidateIds.delete(excludeId);
+
+    const finish = (scored: ScoredNode[]) =>
+      scored
+        .filter(item => item.similarity >= threshold)
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, k)
+        .map(item => ({ ...item.node, similarity: item.similarity }));
+
+    const exact = () => {
+      const metric = index ? index.getMetric() : 'cosine';
+      const scored: ScoredNode[] = [];
+      for (const id of candidateIds) {
+        const node = this.nodes.get(id);
+        if (!node?.embedding || node.embedding.length !== queryVector!.length) continue;
+        const distance = vectorDistance(metric, queryVector!, node.embedding);
+        scored.push({ node, similarity: distanceToSimilarity(metric, distance) });
+      }
+      return finish(scored);
+    };
+
+    if (!index || index.size() === 0) return exact();
+
+    const selectivity = unrestricted ? 1 : candidateIds.size / index.size();
+    if (selectivity <= PRE_FILTER_SELECTIVITY) return exact();
+
+    // Over-fetch so that roughly k results survive the candidate filter
+    const searchK = Math.min(index.size(), Math.ceil(k / selectivity) + (excludeId ? 1 : 0));
+    const metric = index.getMetric();
+    const scored: ScoredNode[] = [];
+    for (const match of index.search(queryVector, searchK, Math.max(searchK, 50))) {
+      const node = this.nodes.get(match.id);
+      if (node && candidateIds.has(match.id)) {
+        scored.push({ node, similarity: distanceToSimilarity(metric, match.distance) });
+      }
+    }
+
+    const ranked = finish(scored);
+    if (ranked.length < k && searchK < index.size()) return exact();
+    return ranked;
+  }
+
+  private executeCall(query: AIQQuery): any[] {
+    const call = query.algorithm;
+    if (!call) {
+      throw new Error('CALL requires an algorithm');
+    }
+
+    const options = {
+      relationships: call.relationships,
+      direction: call.direction,
+      type: query.target || undefined
+    };
+    let output: any[];
+
+    switch (call.name) {
+      case 'SHORTEST_PATH': {
+        if (call.from === undefined || call.to === undefined) {
+          throw new Error('SHORTEST_PATH requires START and TO nodes');
+        }
+        const result = this.algorithms.shortestPath(
+          this.resolveNodeRef(call.from),
+          this.resolveNodeRef(call.to),
+          { ...options, type: undefined }
+        );
+        output = result ? [result] : [];
+        break;
+      }
+      case 'PAGERANK':
+        output = this.algorithms.pageRank({
+          ...options,
+          seed: call.from !== undefined ? this.resolveNodeRef(call.from) : undefined
+        });
+        break;
+      case 'COMPONENTS':
+        output = this.algorithms
+          .connectedComponents(options)
+          .map((nodes, component) => ({ component, size: nodes.length, nodes }));
+        break;
+      case 'DEGREE':
+        output = this.algorithms.degreeCentrality(options);
+        break;
+      default:
+        throw new Error(`Unknown algorithm: ${call.name}`);
+    }
+
+    return query.limit ? output.slice(0, query.limit) : output;
+  }
+
+  /**
+   * MATCH sorts tuples by alias.field
+   */
+  private sortMatches(matches: Record<string, GraphNode>[], sort: SortExpression): Record<string, GraphNode>[] {
+    const [alias, field] = sort.field.split('.');
+    if (!field) {
+      throw new Error(`MATCH sorts by alias.field, got "${sort.field}"`);
+    }
+    const direction = sort.order === 'DESC' ? -1 : 1;
+    return matches.sort((a, b) => orderValues(a[alias]?.properties[field], b[alias]?.properties[field]) * direction);
+  }
+
+  private executeWrite(query: AIQQuery): AIQWriteResult {
+    if (query.operation === 'INSERT') {
+      if (!query.values) {
+        throw new Error('INSERT requires a VALUES block');
+      }
+
+      const { id, ...properties } = query.values;
+      const nodeId = id ?? this.nextNodeId();
+      if (this.nodes.has(String(nodeId))) {
+        throw new Error(`Node already exists: ${nodeId}`);
+      }
+
+      this.addNode({
+        id: nodeId,
+        type: query.target,
+        properties,
+        edges: query.link || []
+      });
+      return { operation: 'INSERT', affected: 1, ids: [nodeId] };
+    }
+
+    // UPDATE and DELETE act on the nodes selected by WHERE / FILTER / SORT / LIMIT
+    const { root } = this.plan(query);
+    const targets: GraphNode[] = root.operator === 'Write' && root.input ? this.runPlan(root.input, query, false) : [];
+
+    const ids = targets.map(node => node.id);
+
+    if (query.operation === 'UPDATE' && !query.set && !query.link && !query.unlink) {
+      throw new Error('UPDATE requires a SET, LINK or UNLINK block');
+    }
+
+    // Staged and committed as one, so a write that fails (schema, unique
+    // index) leaves none of the targets changed
+    return this.transaction(transaction => {
+      if (query.operation === 'DELETE') {
+        for (const id of ids) {
+          transaction.removeNode(id);
+        }
+        return { operation: 'DELETE', affected: ids.length, ids };
+      }
+
+      for (const id of ids) {
+        if (query.set) {
+          transaction.patchProperties(id, query.set);
+        }
+        for (const edge of query.link || []) {
+          transaction.addEdge(id, edge);
+        }
+        for (const edge of query.unlink || []) {
+          transaction.removeEdge(id, edge.relationship, edge.target);
+        }
+      }
+      return { operation: 'UPDATE', affected: ids.length, ids };
+    });
+  }
+
+  /**
+   * BEGIN ... COMMIT: run the statements in one transaction. "$n" values
+   * refer to the id the nth statement wrote (or the first node it read).
+   * With ROLLBACK the statements run and their writes are discarded.
+   */
+  private executeTransaction(query: AIQQuery): AIQTransactionResult {
+    const transaction = this.beginTransaction();
+    const results: any[][] = [];
+
+    try {
+      for (const statement of query.statements || []) {
+        results.push(transaction.executeQuery(withReferences(statement, results)));
+      }
+    } catch (error) {
+      transaction.rollback();
+      throw error;
+    }
+
+    if (query.rollback) {
+      transaction.rollback();
+      return { operation: 'TRANSACTION', committed: false, results };
+    }
+    transaction.commit();
+    return { operation: 'TRANSACTION', committed: true, results };
+  }
+
+  private executeIndexStatement(query: AIQQuery): AIQIndexResult {
+    if (query.operation === 'DROP_INDEX') {
+      return { operation: 'DROP_INDEX', name: query.target, affected: this.dropIndex(query.target) ? 1 : 0 };
+    }
+
+    if (!query.index) {
+      throw new Error('CREATE_INDEX requires an index definition');
+    }
+    const name = this.createIndex(query.index);
+    return { operation: 'CREATE_INDEX', name, affected: this.indexes.get(name)!.size() };
+  }
+
+  /**
+   * Next numeric id (max existing numeric id + 1)
+   */
+  private nextNodeId(): number {
+    let max = 0;
+    for (const node of this.nodes.values()) {
+      if (typeof node.id === 'number' && node.id > max) {
+        max = node.id;
+      }
+    }
+    return max + 1;
+  }
+
+  private executeTraverse(query: AIQQuery): GraphNode[] {
+    const spec = query.traversal || this.traversalFromWhere(query.where);
+    const start = this.resolveNodeRef(spec.start);
+
+    let results = this.traverse(start, spec.relationships, spec.maxDepth, spec.direction);
+
+    // A target that names a node type narrows the result to that type
+    if (query.target && this.typeIndex.has(query.target)) {
+      results = results.filter(node => node.type === query.target);
+    }
+
+    return results;
+  }
+
+  /**
+   * Legacy form: WHERE { start: 1, path: [HAS_ORDER], direction: in }
+   */
+  private traversalFromWhere(where: Record<string, any> | undefined) {
+    if (where?.start === undefined) {
+      throw new Error('GRAPH_TRAVERSE requires start node');
+    }
+
+    let path = where.path || [];
+    if (typeof path === 'string') {
+      path = path.replace(/^\[|\]$/g, '').split(',').map((rel: string) => rel.trim()).filter(Boolean);
+    }
+
+    return {
+      start: where.start,
+      relationships: path as string[],
+      direction: (where.direction || 'out') as TraversalDirection,
+      maxDepth: where.depth
+    };
+  }
+
+  /**
+   * Accept "type:id" references (e.g. user:1) as well as raw ids
+   */
+  private resolveNodeRef(ref: string | number): string | number {
+    if (this.nodes.has(String(ref))) return ref;
+
+    const match = String(ref).match(/^(\w+):(.+)$/);
+    if (match && this.nodes.get(match[2])?.type === match[1]) {
+      return match[2];
+    }
+    return ref;
+  }
+
+
+  private applyFilters<T extends GraphNode | Record<string, any>>(nodes: T[], filters: Record<string, any>): T[] {
+    return nodes.filter(node => matchesConditions(node, filters));
+  }
+
+  private applySort<T extends GraphNode | Record<string, any>>(nodes: T[], sort: SortExpression): T[] {
+    // Non-property fields such as similarity live on the result itself; ties go by id
+    return nodes.sort((a, b) => compareRows(a, b, sort));
+  }
+
+  /**
+   * COMPUTE / GROUP BY. Aggregates over a relationship ("COUNT(orders)",
+   * "SUM(orders.total)") are added to each node; GROUP BY returns one row
+   * per group; otherwise property aggregates collapse the result to one row.
+   */
+  private applyCompute(
+    nodes: GraphNode[],
+    compute: Record<string, ComputeExpression>,
+    groupBy?: string[]
+  ): any[] {
+    const aggregates = Object.entries(compute).map(([key, expression]) => ({
+      key,
+      expression,
+      ...this.resolveComputeField(expression.field)
+    }));
+
+    if (groupBy) {
+      const groups = new Map<string, { row: Record<string, any>; members: GraphNode[] }>();
+      for (const node of nodes) {
+        const values = groupBy.map(field => fieldValue(node, field));
+        const groupKey = JSON.stringify(values);
+        if (!groups.has(groupKey)) {
+          const row: Record<string, any> = {};
+          groupBy.forEach((field, i) => (row[field] = values[i]));
+          groups.set(groupKey, { row, members: [] });
+        }
+        groups.get(groupKey)!.members.push(node);
+      }
+
+      return Array.from(groups.values(), ({ row, members }) => ({
+        ...row,
+        ...this.computeAggregates(aggregates, members)
+      }));
+    }
+
+    if (!aggregates.some(aggregate => aggregate.relation)) {
+      return [this.computeAggregates(aggregates, nodes)];
+    }
+
+    for (const { key, relation } of aggregates) {
+      if (!relation) {
+        throw new Error(
+          `COMPUTE ${key} aggregates the whole result while others aggregate per node over relationships; add GROUP BY`
+        );
+      }
+      if (['id', 'type', 'properties', 'edges', 'embedding'].includes(key)) {
+        throw new Error(`COMPUTE name is reserved: ${key}`);
+      }
+    }
+    return nodes.map(node => ({ ...node, ...this.computeAggregates(aggregates, [node]) }));
+  }
+
+  private computeAggregates(
+    aggregates: { key: string; expression: ComputeExpression; relation?: Relation; field?: string }[],
+    nodes: GraphNode[]
+  ): Record<string, any> {
+    const row: Record<string, any> = {};
+
+    for (const { key, expression, relation, field } of aggregates) {
+      const items = relation ? nodes.flatMap(node => this.relatedNodes(node, relation)) : nodes;
+      // COUNT() and COUNT(orders) count items; with a field only present values count
+      const values = field === undefined ? items : items.map(item => fieldValue(item, field));
+      row[key] = aggregate(expression.function, values);
+    }
+
+    return row;
+  }
+
+  /**
+   * "orders.total" -> neighbours named "orders" and their total property;
+   * a name that is neither a relationship nor a node type is a property
+   */
+  private resolveComputeField(argument?: string): { relation?: Relation; field?: string } {
+    if (!argument) return {};
+
+    const dot = argument.indexOf('.');
+    const name = dot === -1 ? argument : argument.slice(0, dot);
+    const field = dot === -1 ? undefined : argument.slice(dot + 1);
+
+    if (this.relationshipIndex.has(name)) {
+      return { relation: { relationship: name }, field };
+    }
+
+    // "orders" and "categories" name the order and category types
+    const singular = [name, name.replace(/ies$/, 'y'), name.replace(/es$/, ''), name.replace(/s$/, '')];
+    const type = singular.find(candidate => this.typeIndex.has(candidate));
+    if (type) {
+      return { relation: { type }, field };
+    }
+
+    if (dot !== -1) {
+      throw new Error(`Unknown relationship or type in COMPUTE: ${name}`);
+    }
+    return { field: argument };
+  }
+
+  /**
+   * Neighbours in either direction over a relationship, or of a type over any edge
+   */
+  private relatedNodes(node: GraphNode, relation: Relation): GraphNode[] {
+    let ids: string[];
+    if (relation.relationship) {
+      ids = this.neighbourIds(node, relation.relationship, 'both');
+    } else {
+      ids = Array.from(
+        new Set([...node.edges.map(edge => String(edge.target)), ...this.getInboundSources(node.id)])
+      );
+    }
+
+    return ids
+      .map(id => this.nodes.get(id))
+      .filter((neighbour): neighbour is GraphNode => {
+        return neighbour !== undefined && (!relation.type || neighbour.type === relation.type);
+      });
+  }
+
+  /**
+   * Drop cached results a write from previous to node (either missing for
+   * an insert or removal) may have changed. Updates that keep the type only
+   * invalidate results that read one of the changed keys.
+   */
+  private invalidateCache(previous: GraphNode | undefined, node: GraphNode | undefined): void {
+    for (const change of this.cacheChanges(previous, node)) {
+      this.cache.invalidate(change);
+    }
+  }
+
+  private cacheChanges(previous: GraphNode | undefined, node: GraphNode | undefined): CacheChange[] {
+    if (previous && node && previous.type === node.type) {
+      const properties = changedKeys(previous, node);
+      return properties.length > 0 ? [{ type: node.type, properties }] : [];
+    }
+
+    const changes: CacheChange[] = [];
+    if (previous) changes.push({ type: previous.type, properties: null });
+    if (node) changes.push({ type: node.type, properties: null });
+    return changes;
+  }
+
+  /**
+   * Listen to committed writes (change data capture). Writes are delivered
+   * in batches after the call that made them returns, a transaction's in
+   * one batch; returns a function that stops listening.
+   */
+  onChange(listener: (changes: ChangeEvent[]) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Keep a read query live: onDiff gets the rows it gains, loses and
+   * changes whenever a batch of writes changes its result
+   */
+  subscribe(
+    query: AIQQuery,
+    onDiff: (diff: LiveQueryDiff) => void,
+    onError?: (error: Error) => void
+  ): LiveQuery {
+    if (!READ_OPERATIONS.includes(query.operation)) {
+      throw new Error(`${query.operation} cannot be subscribed to; live queries must be reads`);
+    }
+
+    const liveQuery = new LiveQuery(this.nextLiveQueryId++, query, this.liveQueryStore, onDiff, onError);
+    this.liveQueries.add(liveQuery);
+    return liveQuery;
+  }
+
+  /**
+   * Add a write to the node's history and queue it for the change feed;
+   * writes that change nothing are skipped
+   */
+  private recordWrite(previous: GraphNode | undefined, node: GraphNode | undefined): void {
+    if (previous && node && this.cacheChanges(previous, node).length === 0) return;
+
+    const current = (node || previous)!;
+    const op = !previous ? 'insert' : node ? 'update' : 'delete';
+    const { at, origin } = this.writeStamp || { at: Date.now() };
+
+    // Snapshot nodes and WAL records from before history was kept have no time
+    if (this.historyLimit > 0 && (!this.recovering || this.writeStamp)) {
+      const nodeId = String(current.id);
+      const version: NodeVersion = {
+        version: this.commitVersion,
+        timestamp: at,
+        op,
+        node: node ? withoutEmbedding(node) : null,
+        changed: previous && node ? changedKeys(previous, node) : undefined,
+        origin
+      };
+      // A new array per write, so a failed commit can put the old one back
+      this.history.set(nodeId, [...(this.history.get(nodeId) || []), version].slice(-this.historyLimit));
+    }
+
+    if (this.changeListeners.size === 0 && this.liveQueries.size === 0) return;
+    this.pendingChanges.push({
+      seq: this.commitVersion,
+      op,
+      id: current.id,
+      type: current.type,
+      before: previous || null,
+      after: node || null,
+      timestamp: at,
+      origin
+    });
+    if (this.pendingChanges.length === 1) {
+      queueMicrotask(() => this.flushChanges());
+    }
+  }
+
+  private flushChanges(): void {
+    const changes = this.pendingChanges;
+    if (changes.length === 0) return;
+    this.pendingChanges = [];
+
+    for (const listener of this.changeListeners) {
+      listener(changes);
+    }
+    for (const liveQuery of this.liveQueries) {
+      liveQuery.refresh(changes);
+    }
+  }
+
+  /**
+   * Get statistics
+   */
+  getStats(): any {
+    return {
+      totalNodes: this.nodes.size,
+      nodesByType: Array.from(this.typeIndex.entries()).map(([type, ids]) => ({
+        type,
+        count: ids.size
+      })),
+      cache: this.cache.getStats(),
+      history: {
+        nodes: this.history.size,
+        versions: Array.from(this.history.values()).reduce((sum, versions) => sum + versions.length, 0),
+        limit: this.historyLimit
+      },
+      indexes: {
+        types: this.typeIndex.size,
+        properties: this.propertyCounts.size,
+        secondary: Array.from(this.indexes.values(), index => index.getStats()),
+        edges: this.edgeIndex.size,
+        inboundEdges: this.inboundIndex.size,
+        relationships: Object.fromEntries(this.relationshipIndex),
+        text: Array.from(this.textIndexes.entries()).map(([type, { properties, index }]) => ({
+          type,
+          properties,
+          ...index.getStats()
+        })),
+        vectors: Array.from(this.vectorIndexes.entries()).map(([type, index]) => ({
+          type,
+          ...index.getStats()
+        }))
+      },
+      schemas: this.getSchemas(),
+      embeddings: this.embeddingProvider
+        ? {
+            provider: this.embeddingProvider.name,
+            dimensions: this.embeddingProvider.dimensions,
+            properties: this.embeddedProperties
+          }
+        : null,
+      storage: this.storage ? this.storage.getStats() : { persistent: false }
+    };
+  }
+
+  /**
+   * Clear all data
+   */
+  clear(): void {
+    this.stamped(() => {
+      this.applyClear();
+      this.log({ op: 'clear' });
+    });
+  }
+
+  private applyClear(): void {
+    this.clearedVersion = ++this.commitVersion;
+    for (const [nodeId, node] of this.nodes) {
+      for (const transaction of this.transactions) {
+        transaction.capture(nodeId, node);
+      }
+      this.recordWrite(node, undefined);
+    }
+    this.versions.clear();
+    this.nodes.clear();
+    this.typeIndex.clear();
+    this.edgeIndex.clear();
+    this.inboundIndex.clear();
+    this.relationshipIndex.clear();
+    this.propertyCounts.clear();
+    for (const index of this.indexes.values()) {
+      index.clear();
+    }
+    this.vectorIndexes.clear();
+    for (const entry of this.textIndexes.values()) {
+      entry.index = new FullTextIndex();
+    }
+    this.cache.clear();
+  }
+
+  /**
+   * Export all nodes in the GraphMemDB_v1 binary format
+   */
+  exportBinary(): Buffer {
+    return new NodeSerializer().serialize(this.nodes.values(), {
+      exportedAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Import nodes from a GraphMemDB_v1 buffer, returns the number imported
+   */
+  importBinary(buffer: Buffer): number {
+    const { nodes } = new NodeSerializer().deserialize(buffer);
+    for (const node of nodes) {
+      this.addNode(node);
+    }
+    return nodes.length;
+  }
+
+  exportToFile(filePath: string): void {
+    fs.writeFileSync(filePath, this.exportBinary());
+  }
+
+  importFromFile(filePath: string): number {
+    return this.importBinary(fs.readFileSync(filePath));
+  }
+
+  /**
+   * Persistence - snapshot + write-ahead log
+   */
+  snapshot(): void {
+    this.storage?.writeSnapshot(
+      this.nodes.values(),
+      { indexes: this.getIndexes(), schemas: this.getSchemas() },
+      Object.fromEntries(this.history)
+    );
+  }
+
+  /**
+   * Flush a final snapshot and release the WAL
+   */
+  close(): void {
+    if (!this.storage) return;
+    this.snapshot();
+    this.storage.close();
+  }
+
+  private log(record: WALRecord): void {
+    if (!this.storage) return;
+
+    // Node writes carry their time, origin and version so replay restores the history
+    this.storage.append(this.writeStamp ? { ...record, ...this.writeStamp } : record);
+    if (this.storage.pendingRecords() >= this.snapshotInterval) {
+      this.snapshot();
+    }
+  }
+
+  /**
+   * Crash recovery: load the snapshot, replay the WAL and rebuild indexes
+   */
+  private recover(): void {
+    const { nodes, catalog, history, records } = this.storage!.load();
+    this.recovering = true;
+
+    // Indexes declared in the options are already in place
+    for (const definition of catalog.indexes) {
+      if (!this.indexes.has(definition.name!)) this.applyCreateIndex(definition);
+    }
+    for (const schema of catalog.schemas) {
+      this.schemas.set(schema.type, schema);
+    }
+
+    this.history = new Map(Object.entries(history));
+    for (const node of nodes) {
+      this.applyPutNode(node);
+    }
+
+    // Number writes on from the history, and replay them with their own versions
+    for (const versions of this.history.values()) {
+      this.commitVersion = Math.max(this.commitVersion, versions[versions.length - 1].version);
+    }
+    for (const record of records) {
+      this.writeStamp = null;
+      if (record.at !== undefined) {
+        this.commitVersion = Math.max(this.commitVersion, record.version ?? 0);
+        this.writeStamp = { at: record.at, origin: record.origin, version: this.commitVersion };
+      }
+      this.applyRecord(record);
+    }
+    this.writeStamp = null;
+    this.recovering = false;
+  }
+
+  private applyRecord(record: WALRecord): void {
+    switch (record.op) {
+      case 'addNode':
+        this.applyPutNode(record.node);
+        break;
+      case 'removeNode':
+        this.applyRemoveNode(String(record.id), record.policy);
+        break;
+      case 'clear':
+        this.applyClear();
+        break;
+      case 'createIndex':
+        if (!this.indexes.has(record.definition.name)) this.applyCreateIndex(record.definition);
+        break;
+      case 'dropIndex':
+        this.indexes.delete(record.name);
+        break;
+      case 'defineSchema':
+        this.schemas.set(record.schema.type, record.schema);
+        break;
+      case 'dropSchema':
+        this.schemas.delete(record.type);
+        break;
+      case 'transaction':
+        for (const write of record.records) {
+          this.applyRecord(write);
+        }
+        break;
+      default:
+        throw new Error(`Unknown WAL operation: ${record.op}`);
+    }
+  }
+}
+
+/**
+ * Value at a dotted path: "name", "u.name" (a MATCH alias), "address.city"
+ */
+function pathValue(row: any, path: string): any {
+  let value = row;
+  for (const key of path.split('.')) {
+    if (value === null || value === undefined) return undefined;
+    value = typeof value === 'object' ? fieldValue(value, key) : undefined;
+  }
+  return value;
+}
+
+function isNode(row: any): row is GraphNode {
+  return row !== null && typeof row === 'object' && Array.isArray(row.edges) && row.properties !== undefined;
+}
+
+/**
+ * History keeps properties and edges; embeddings are derived and large
+ */
+function withoutEmbedding(node: GraphNode): GraphNode {
+  if (!node.embedding) return node;
+  const { embedding, ...rest } = node;
+  return rest;
+}
+
+/**
+ * Properties whose values differ between two versions of a node, plus
+ * '$edges' and '$embedding' when those changed
+ */
+function changedKeys(previous: GraphNode, node: GraphNode): string[] {
+  const keys = new Set([...Object.keys(previous.properties), ...Object.keys(node.properties)]);
+  const changed = Array.from(keys).filter(key => !sameValue(previous.properties[key], node.properties[key]));
+
+  if (!sameValue(previous.edges, node.edges)) changed.push('$edges');
+  if (!sameValue(previous.embedding, node.embedding)) changed.push('$embedding');
+  return changed;
+}
+
+/**
+ * Replace "$n" strings in a transaction statement with the id the nth
+ * statement wrote, or the id of the first node it read
+ */
+function withReferences(query: AIQQuery, results: any[][]): AIQQuery {
+  const resolve = (value: any): any => {
+    if (typeof value === 'string') {
+      const reference = value.match(/^\$(\d+)$/);
+      if (!reference) return value;
+
+      const first = results[Number(reference[1]) - 1]?.[0];
+      const id = first?.ids ? first.ids[0] : first?.id;
+      if (id === undefined) {
+        throw new Error(`${value} does not refer to an earlier statement with a result`);
+      }
+      return id;
+    }
+    if (Array.isArray(value)) return value.map(resolve);
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolve(item)]));
+    }
+    return value;
+  };
+  return resolve(query);
+}
+
+function removeFromIndex<K>(index: Map<K, Set<string>>, key: K, nodeId: string): void {
+  const ids = index.get(key);
+  if (!ids) return;
+  ids.delete(nodeId);
+  if (ids.size === 0) {
+    index.delete(key);
+  }
+}
+
+/**
+ * Text of the given properties, joined for embedding or full-text indexing
+ */
+function textOf(node: GraphNode, properties: string[]): string {
+  return properties
+    .map(property => node.properties[property])
+    .filter(value => value !== undefined && value !== null)
+    .flat()
+    .join(' ');
+}
+
+/**
+ * Aggregate a list of values; missing values are skipped, and every
+ * aggregate but COUNT and SUM is null over an empty list
+ */
+function aggregate(fn: ComputeExpression['function'], values: any[]): any {
+  const present = values.filter(value => value !== undefined && value !== null);
+  if (fn === 'COUNT') return present.length;
+
+  if (fn === 'MIN' || fn === 'MAX') {
+    if (present.length === 0) return null;
+    return present.reduce((best, value) => ((fn === 'MIN' ? value < best : value > best) ? value : best));
   }
+
+  const numbers = present.map(Number).filter(value => !Number.isNaN(value));
+  const sum = numbers.reduce((total, value) => total + value, 0);
+  if (fn === 'SUM') return sum;
+  return numbers.length > 0 ? sum / numbers.length : null;
+}
+
+function reverseDirection(direction: TraversalDirection): TraversalDirection {
+  return direction === 'out' ? 'in' : direction === 'in' ? 'out' : 'both';
 }
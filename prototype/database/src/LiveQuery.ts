@@ -0,0 +1,130 @@
+import { AIQQuery, ChangeEvent, LiveQueryDiff } from '@aiws/shared';
+import { sameValue } from './Conditions';
+
+/**
+ * What a live query needs from the database it watches
+ */
+export interface LiveQueryStore {
+  /** Run the query against the committed graph */
+  execute(query: AIQQuery): any[];
+  /** Whether one of the changes may change the query's result */
+  affects(query: AIQQuery, changes: ChangeEvent[]): boolean;
+  /** Stop handing changes to the live query */
+  release(liveQuery: LiveQuery): void;
+}
+
+/**
+ * Live Query - Read query whose result follows the committed graph
+ *
+ * The database hands every batch of committed changes to its live queries.
+ * A query that reads one of the changed types (and properties) runs again
+ * and reports the rows added, updated and removed since its last result;
+ * batches that leave the result as it was are not reported.
+ */
+export class LiveQuery {
+  readonly id: number;
+  readonly query: AIQQuery;
+  private store: LiveQueryStore;
+  private onDiff: (diff: LiveQueryDiff) => void;
+  private onError?: (error: Error) => void;
+  /** Current rows by key, in result order */
+  private rows: Map<string, any> = new Map();
+  private active = true;
+
+  constructor(
+    id: number,
+    query: AIQQuery,
+    store: LiveQueryStore,
+    onDiff: (diff: LiveQueryDiff) => void,
+    onError?: (error: Error) => void
+  ) {
+    this.id = id;
+    this.query = query;
+    this.store = store;
+    this.onDiff = onDiff;
+    this.onError = onError;
+    this.update(store.execute(query), 0);
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  getResult(): any[] {
+    return Array.from(this.rows.values());
+  }
+
+  /**
+   * Re-run the query if the changes may affect it and report the difference;
+   * a failing run goes to onError and keeps the previous result
+   */
+  refresh(changes: ChangeEvent[]): void {
+    if (!this.active || changes.length === 0 || !this.store.affects(this.query, changes)) return;
+
+    let result: any[];
+    try {
+      result = this.store.execute(this.query);
+    } catch (error: any) {
+      this.onError?.(error);
+      return;
+    }
+
+    const diff = this.update(result, changes[changes.length - 1].seq);
+    if (diff) this.onDiff(diff);
+  }
+
+  unsubscribe(): void {
+    if (!this.active) return;
+
+    this.active = false;
+    this.store.release(this);
+  }
+
+  private update(result: any[], seq: number): LiveQueryDiff | null {
+    const rows = new Map<string, any>();
+    result.forEach((row, position) => rows.set(rowKey(this.query, row, position), row));
+
+    const added: any[] = [];
+    const updated: any[] = [];
+    for (const [key, row] of rows) {
+      if (!this.rows.has(key)) {
+        added.push(row);
+      } else if (!sameValue(this.rows.get(key), row)) {
+        updated.push(row);
+      }
+    }
+    const previousKeys = Array.from(this.rows.keys());
+    const removed = previousKeys.filter(key => !rows.has(key));
+
+    // Clients append added rows, so only other moves need the full order
+    const keys = Array.from(rows.keys());
+    const expected = [
+      ...previousKeys.filter(key => rows.has(key)),
+      ...keys.filter(key => !this.rows.has(key))
+    ];
+    const reordered = expected.some((key, i) => key !== keys[i]);
+
+    this.rows = rows;
+    if (added.length === 0 && updated.length === 0 && removed.length === 0 && !reordered) {
+      return null;
+    }
+    return { id: this.id, seq, added, updated, removed, ...(reordered ? { order: keys } : {}) };
+  }
+}
+
+/**
+ * Key of a result row: node id, the ids bound by a MATCH row, the group
+ * values of a GROUP BY row, or else the row's position
+ */
+export function rowKey(query: AIQQuery, row: any, position: number): string {
+  if (query.operation === 'MATCH') {
+    return Object.keys(row)
+      .sort()
+      .map(variable => `${variable}:${row[variable]?.id}`)
+      .join(',');
+  }
+  if (query.groupBy) {
+    return JSON.stringify(query.groupBy.map(field => row[field]));
+  }
+  return row?.id !== undefined ? String(row.id) : `#${position}`;
+}
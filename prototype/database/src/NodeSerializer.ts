@@ -0,0 +1,491 @@
+import { GraphNode, GraphEdge } from '@aiws/shared';
+
+const MAGIC = 0x42444d47; // "GMDB" little-endian
+const FORMAT_VERSION = 1;
+
+enum ValueType {
+  NULL = 0,
+  UNDEFINED = 1,
+  FALSE = 2,
+  TRUE = 3,
+  INT32 = 4,
+  FLOAT64 = 5,
+  STRING = 6,
+  DATE = 7,
+  ARRAY = 8,
+  OBJECT = 9
+}
+
+enum IdType {
+  NUMBER = 0,
+  STRING = 1
+}
+
+const EDGE_HAS_WEIGHT = 0x01;
+const NODE_HAS_EMBEDDING = 0x01;
+
+/**
+ * Node Serializer - GraphMemDB_v1 binary storage format
+ *
+ * File layout (little-endian):
+ *   header:      magic "GMDB" | version: uint16 | reserved: uint16 | node_count: uint32
+ *   metadata:    length: uint32 | JSON bytes
+ *   dictionaries (types, keys, relationships, strings):
+ *                count: uint32 | (length: uint32 | UTF-8 bytes)*
+ *   node_offsets: uint32 * node_count (absolute, for direct access)
+ *   nodes:
+ *     id:                tag: uint8 | float64 or string index: uint32
+ *     type:              uint16 (type dictionary)
+ *     flags:             uint8 (bit 0: has embedding)
+ *     properties_offset: uint32 (relative to node start)
+ *     edges_offset:      uint32 (relative to node start)
+ *     embedding:         dims: uint32 | f32 * dims
+ *     properties:        count: uint32 | (key: uint32 | value_type: uint8 | value)*
+ *     edges:             count: uint32 | (relationship: uint16 | flags: uint8 | target | weight: f64?)*
+ *
+ * Property keys, relationship names, node types and string values are
+ * dictionary-encoded; Dates keep their type as epoch milliseconds.
+ */
+export class NodeSerializer {
+  /**
+   * Encode nodes (plus optional JSON metadata) into a binary buffer
+   */
+  serialize(nodes: Iterable<GraphNode>, metadata: Record<string, any> = {}): Buffer {
+    const nodeList = Array.from(nodes);
+    const dicts = {
+      types: new Dictionary(),
+      keys: new Dictionary(),
+      relationships: new Dictionary(),
+      strings: new Dictionary()
+    };
+
+    // Node bodies first so the dictionaries are complete before the header
+    const bodies = nodeList.map(node => this.encodeNode(node, dicts));
+
+    if (dicts.types.size() > 0xffff || dicts.relationships.size() > 0xffff) {
+      throw new Error('Too many distinct node types or relationships for GraphMemDB_v1');
+    }
+
+    const writer = new BinaryWriter();
+    writer.uint32(MAGIC);
+    writer.uint16(FORMAT_VERSION);
+    writer.uint16(0);
+    writer.uint32(nodeList.length);
+    writer.string(JSON.stringify(metadata));
+
+    for (const dict of [dicts.types, dicts.keys, dicts.relationships, dicts.strings]) {
+      writer.uint32(dict.size());
+      for (const entry of dict.entries()) {
+        writer.string(entry);
+      }
+    }
+
+    let offset = writer.length() + nodeList.length * 4;
+    for (const body of bodies) {
+      writer.uint32(offset);
+      offset += body.length;
+    }
+    for (const body of bodies) {
+      writer.bytes(body);
+    }
+
+    return writer.toBuffer();
+  }
+
+  /**
+   * Decode every node in a buffer
+   */
+  deserialize(buffer: Buffer): { nodes: GraphNode[]; metadata: Record<string, any> } {
+    const file = this.readFile(buffer);
+    const nodes: GraphNode[] = [];
+    for (let i = 0; i < file.nodeCount; i++) {
+      nodes.push(this.decodeNode(buffer, file.offsets[i], file));
+    }
+    return { nodes, metadata: file.metadata };
+  }
+
+  /**
+   * Decode a single node by position using the offset table
+   */
+  deserializeNodeAt(buffer: Buffer, index: number): GraphNode {
+    const file = this.readFile(buffer);
+    if (index < 0 || index >= file.nodeCount) {
+      throw new Error(`Node index out of range: ${index}`);
+    }
+    return this.decodeNode(buffer, file.offsets[index], file);
+  }
+
+  private encodeNode(node: GraphNode, dicts: Record<string, Dictionary>): Buffer {
+    const writer = new BinaryWriter();
+    const hasEmbedding = Array.isArray(node.embedding);
+
+    this.writeId(writer, node.id, dicts.strings);
+    writer.uint16(dicts.types.add(node.type));
+    writer.uint8(hasEmbedding ? NODE_HAS_EMBEDDING : 0);
+    const offsetsAt = writer.length();
+    writer.uint32(0); // properties_offset, patched below
+    writer.uint32(0); // edges_offset, patched below
+
+    const embedding = node.embedding || [];
+    writer.uint32(embedding.length);
+    for (const value of embedding) {
+      writer.float32(value);
+    }
+
+    const propertiesOffset = writer.length();
+    const entries = Object.entries(node.properties);
+    writer.uint32(entries.length);
+    for (const [key, value] of entries) {
+      writer.uint32(dicts.keys.add(key));
+      this.writeValue(writer, value, dicts);
+    }
+
+    const edgesOffset = writer.length();
+    writer.uint32(node.edges.length);
+    for (const edge of node.edges) {
+      const hasWeight = typeof edge.weight === 'number';
+      writer.uint16(dicts.relationships.add(edge.relationship));
+      writer.uint8(hasWeight ? EDGE_HAS_WEIGHT : 0);
+      this.writeId(writer, edge.target, dicts.strings);
+      if (hasWeight) {
+        writer.float64(edge.weight!);
+      }
+    }
+
+    const buffer = writer.toBuffer();
+    buffer.writeUInt32LE(propertiesOffset, offsetsAt);
+    buffer.writeUInt32LE(edgesOffset, offsetsAt + 4);
+    return buffer;
+  }
+
+  private decodeNode(buffer: Buffer, start: number, file: DecodedFile): GraphNode {
+    const reader = new BinaryReader(buffer, start);
+
+    const id = this.readId(reader, file.strings);
+    const type = file.types[reader.uint16()];
+    const flags = reader.uint8();
+    const propertiesOffset = reader.uint32();
+    const edgesOffset = reader.uint32();
+
+    const dims = reader.uint32();
+    const embedding: number[] = [];
+    for (let i = 0; i < dims; i++) {
+      embedding.push(reader.float32());
+    }
+
+    reader.seek(start + propertiesOffset);
+    const properties: Record<string, any> = {};
+    const propertyCount = reader.uint32();
+    for (let i = 0; i < propertyCount; i++) {
+      const key = file.keys[reader.uint32()];
+      properties[key] = this.readValue(reader, file);
+    }
+
+    reader.seek(start + edgesOffset);
+    const edges: GraphEdge[] = [];
+    const edgeCount = reader.uint32();
+    for (let i = 0; i < edgeCount; i++) {
+      const relationship = file.relationships[reader.uint16()];
+      const edgeFlags = reader.uint8();
+      const edge: GraphEdge = { relationship, target: this.readId(reader, file.strings) };
+      if (edgeFlags & EDGE_HAS_WEIGHT) {
+        edge.weight = reader.float64();
+      }
+      edges.push(edge);
+    }
+
+    const node: GraphNode = { id, type, properties, edges };
+    if (flags & NODE_HAS_EMBEDDING) {
+      node.embedding = embedding;
+    }
+    return node;
+  }
+
+  private readFile(buffer: Buffer): DecodedFile {
+    const reader = new BinaryReader(buffer, 0);
+
+    if (buffer.length < 12 || reader.uint32() !== MAGIC) {
+      throw new Error('Not a GraphMemDB binary file');
+    }
+    const version = reader.uint16();
+    if (version !== FORMAT_VERSION) {
+      throw new Error(`Unsupported GraphMemDB format version: ${version}`);
+    }
+    reader.uint16();
+
+    const nodeCount = reader.uint32();
+    const metadata = JSON.parse(reader.string());
+
+    const readDictionary = () => {
+      const entries: string[] = [];
+      const count = reader.uint32();
+      for (let i = 0; i < count; i++) {
+        entries.push(reader.string());
+      }
+      return entries;
+    };
+
+    const types = readDictionary();
+    const keys = readDictionary();
+    const relationships = readDictionary();
+    const strings = readDictionary();
+
+    const offsets: number[] = [];
+    for (let i = 0; i < nodeCount; i++) {
+      offsets.push(reader.uint32());
+    }
+
+    return { nodeCount, metadata, types, keys, relationships, strings, offsets };
+  }
+
+  private writeId(writer: BinaryWriter, id: string | number, strings: Dictionary): void {
+    if (typeof id === 'number') {
+      writer.uint8(IdType.NUMBER);
+      writer.float64(id);
+    } else {
+      writer.uint8(IdType.STRING);
+      writer.uint32(strings.add(id));
+    }
+  }
+
+  private readId(reader: BinaryReader, strings: string[]): string | number {
+    return reader.uint8() === IdType.NUMBER ? reader.float64() : strings[reader.uint32()];
+  }
+
+  private writeValue(writer: BinaryWriter, value: any, dicts: Record<string, Dictionary>): void {
+    if (value === null) {
+      writer.uint8(ValueType.NULL);
+    } else if (value === undefined) {
+      writer.uint8(ValueType.UNDEFINED);
+    } else if (typeof value === 'boolean') {
+      writer.uint8(value ? ValueType.TRUE : ValueType.FALSE);
+    } else if (typeof value === 'number') {
+      if (Number.isInteger(value) && value >= -0x80000000 && value <= 0x7fffffff && !Object.is(value, -0)) {
+        writer.uint8(ValueType.INT32);
+        writer.int32(value);
+      } else {
+        writer.uint8(ValueType.FLOAT64);
+        writer.float64(value);
+      }
+    } else if (typeof value === 'string') {
+      writer.uint8(ValueType.STRING);
+      writer.uint32(dicts.strings.add(value));
+    } else if (value instanceof Date) {
+      writer.uint8(ValueType.DATE);
+      writer.float64(value.getTime());
+    } else if (Array.isArray(value)) {
+      writer.uint8(ValueType.ARRAY);
+      writer.uint32(value.length);
+      for (const item of value) {
+        this.writeValue(writer, item, dicts);
+      }
+    } else if (typeof value === 'object') {
+      const entries = Object.entries(value);
+      writer.uint8(ValueType.OBJECT);
+      writer.uint32(entries.length);
+      for (const [key, item] of entries) {
+        writer.uint32(dicts.keys.add(key));
+        this.writeValue(writer, item, dicts);
+      }
+    } else {
+      throw new Error(`Unsupported property value type: ${typeof value}`);
+    }
+  }
+
+  private readValue(reader: BinaryReader, file: DecodedFile): any {
+    const type = reader.uint8();
+
+    switch (type) {
+      case ValueType.NULL:
+        return null;
+      case ValueType.UNDEFINED:
+        return undefined;
+      case ValueType.FALSE:
+        return false;
+      case ValueType.TRUE:
+        return true;
+      case ValueType.INT32:
+        return reader.int32();
+      case ValueType.FLOAT64:
+        return reader.float64();
+      case ValueType.STRING:
+        return file.strings[reader.uint32()];
+      case ValueType.DATE:
+        return new Date(reader.float64());
+      case ValueType.ARRAY: {
+        const count = reader.uint32();
+        const items: any[] = [];
+        for (let i = 0; i < count; i++) {
+          items.push(this.readValue(reader, file));
+        }
+        return items;
+      }
+      case ValueType.OBJECT: {
+        const count = reader.uint32();
+        const object: Record<string, any> = {};
+        for (let i = 0; i < count; i++) {
+          const key = file.keys[reader.uint32()];
+          object[key] = this.readValue(reader, file);
+        }
+        return object;
+      }
+      default:
+        throw new Error(`Unknown value type tag: ${type}`);
+    }
+  }
+}
+
+interface DecodedFile {
+  nodeCount: number;
+  metadata: Record<string, any>;
+  types: string[];
+  keys: string[];
+  relationships: string[];
+  strings: string[];
+  offsets: number[];
+}
+
+class Dictionary {
+  private indexes = new Map<string, number>();
+  private values: string[] = [];
+
+  add(value: string): number {
+    let index = this.indexes.get(value);
+    if (index === undefined) {
+      index = this.values.length;
+      this.values.push(value);
+      this.indexes.set(value, index);
+    }
+    return index;
+  }
+
+  size(): number {
+    return this.values.length;
+  }
+
+  entries(): string[] {
+    return this.values;
+  }
+}
+
+class BinaryWriter {
+  private buffer = Buffer.alloc(256);
+  private offset = 0;
+
+  uint8(value: number): void {
+    this.ensure(1);
+    this.offset = this.buffer.writeUInt8(value, this.offset);
+  }
+
+  uint16(value: number): void {
+    this.ensure(2);
+    this.offset = this.buffer.writeUInt16LE(value, this.offset);
+  }
+
+  uint32(value: number): void {
+    this.ensure(4);
+    this.offset = this.buffer.writeUInt32LE(value, this.offset);
+  }
+
+  int32(value: number): void {
+    this.ensure(4);
+    this.offset = this.buffer.writeInt32LE(value, this.offset);
+  }
+
+  float32(value: number): void {
+    this.ensure(4);
+    this.offset = this.buffer.writeFloatLE(value, this.offset);
+  }
+
+  float64(value: number): void {
+    this.ensure(8);
+    this.offset = this.buffer.writeDoubleLE(value, this.offset);
+  }
+
+  string(value: string): void {
+    const bytes = Buffer.from(value, 'utf8');
+    this.uint32(bytes.length);
+    this.bytes(bytes);
+  }
+
+  bytes(value: Buffer): void {
+    this.ensure(value.length);
+    value.copy(this.buffer, this.offset);
+    this.offset += value.length;
+  }
+
+  length(): number {
+    return this.offset;
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.from(this.buffer.subarray(0, this.offset));
+  }
+
+  private ensure(bytes: number): void {
+    if (this.offset + bytes <= this.buffer.length) return;
+
+    let size = this.buffer.length * 2;
+    while (size < this.offset + bytes) size *= 2;
+    const grown = Buffer.alloc(size);
+    this.buffer.copy(grown, 0, 0, this.offset);
+    this.buffer = grown;
+  }
+}
+
+class BinaryReader {
+  private buffer: Buffer;
+  private offset: number;
+
+  constructor(buffer: Buffer, offset: number) {
+    this.buffer = buffer;
+    this.offset = offset;
+  }
+
+  seek(offset: number): void {
+    this.offset = offset;
+  }
+
+  uint8(): number {
+    const value = this.buffer.readUInt8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  uint16(): number {
+    const value = this.buffer.readUInt16LE(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  uint32(): number {
+    const value = this.buffer.readUInt32LE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  int32(): number {
+    const value = this.buffer.readInt32LE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  float32(): number {
+    const value = this.buffer.readFloatLE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  float64(): number {
+    const value = this.buffer.readDoubleLE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  string(): string {
+    const length = this.uint32();
+    const value = this.buffer.toString('utf8', this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+}
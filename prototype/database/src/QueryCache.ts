@@ -0,0 +1,205 @@
+export interface QueryCacheOptions {
+  /** Most results kept (default 1000) */
+  maxEntries?: number;
+  /** Approximate memory budget of the cached results in bytes (default 64 MB) */
+  maxBytes?: number;
+  /** Milliseconds a result lives when the query has no CACHE hint (default 5 minutes) */
+  defaultTtl?: number;
+}
+
+/**
+ * What a cached result was computed from: node types (null: any type) and
+ * the properties it read of them (null: whole nodes). '$edges' and
+ * '$embedding' stand for a node's edges and embedding.
+ */
+export interface CacheDependencies {
+  types: string[] | null;
+  properties: string[] | null;
+}
+
+/**
+ * A write to a node of a type: the keys that changed, or null when the
+ * node was added, removed or changed type
+ */
+export interface CacheChange {
+  type: string;
+  properties: string[] | null;
+}
+
+interface CacheEntry {
+  data: any;
+  expiresAt: number;
+  bytes: number;
+  dependencies: CacheDependencies;
+}
+
+/**
+ * Query Cache - Bounded LRU cache of read query results
+ *
+ * Entries expire after their TTL and are evicted least recently used first
+ * once the entry count or the estimated size of the results passes its
+ * limit (expired entries go first). Writes invalidate only the entries
+ * that depend on the written type and, for property updates, on one of
+ * the changed properties.
+ */
+export class QueryCache {
+  private entries: Map<string, CacheEntry> = new Map();
+  private maxEntries: number;
+  private maxBytes: number;
+  readonly defaultTtl: number;
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private expirations = 0;
+  private invalidations = 0;
+
+  constructor(options: QueryCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.maxBytes = options.maxBytes ?? 64 * 1024 * 1024;
+    this.defaultTtl = options.defaultTtl ?? 300000;
+  }
+
+  get(key: string): any | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    if (Date.now() >= entry.expiresAt) {
+      this.delete(key, entry);
+      this.expirations++;
+      this.misses++;
+      return undefined;
+    }
+
+    // Most recently used entries live at the end of the map
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.data;
+  }
+
+  /**
+   * Cache a result for ttl milliseconds; a ttl of 0 or a result larger than
+   * the whole budget is not cached
+   */
+  set(key: string, data: any, ttl: number, dependencies: CacheDependencies): void {
+    const existing = this.entries.get(key);
+    if (existing) this.delete(key, existing);
+
+    const bytes = estimateSize(data);
+    if (ttl <= 0 || bytes > this.maxBytes) return;
+
+    this.entries.set(key, { data, expiresAt: Date.now() + ttl, bytes, dependencies });
+    this.bytes += bytes;
+    this.evict();
+  }
+
+  /**
+   * Drop the entries a write may have changed; returns how many
+   */
+  invalidate(change: CacheChange): number {
+    let dropped = 0;
+
+    for (const [key, entry] of this.entries) {
+      if (affects(change, entry.dependencies)) {
+        this.delete(key, entry);
+        dropped++;
+      }
+    }
+    this.invalidations += dropped;
+    return dropped;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.bytes = 0;
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  getStats(): any {
+    const lookups = this.hits + this.misses;
+    return {
+      entries: this.entries.size,
+      bytes: this.bytes,
+      maxEntries: this.maxEntries,
+      maxBytes: this.maxBytes,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups,
+      evictions: this.evictions,
+      expirations: this.expirations,
+      invalidations: this.invalidations
+    };
+  }
+
+  private evict(): void {
+    if (!this.overLimit()) return;
+
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (now >= entry.expiresAt) {
+        this.delete(key, entry);
+        this.expirations++;
+      }
+    }
+
+    for (const [key, entry] of this.entries) {
+      if (!this.overLimit()) break;
+      this.delete(key, entry);
+      this.evictions++;
+    }
+  }
+
+  private overLimit(): boolean {
+    return this.entries.size > this.maxEntries || this.bytes > this.maxBytes;
+  }
+
+  private delete(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.bytes -= entry.bytes;
+  }
+}
+
+/**
+ * Whether a write may change a result with these dependencies
+ */
+export function affects(change: CacheChange, dependencies: CacheDependencies): boolean {
+  if (dependencies.types && !dependencies.types.includes(change.type)) return false;
+  if (!change.properties || !dependencies.properties) return true;
+  return change.properties.some(property => dependencies.properties!.includes(property));
+}
+
+/**
+ * Rough in-memory size of a result: UTF-16 strings, 8-byte numbers and a
+ * fixed overhead per object, array and entry
+ */
+function estimateSize(value: any): number {
+  switch (typeof value) {
+    case 'string':
+      return 2 * value.length;
+    case 'number':
+      return 8;
+    case 'boolean':
+      return 4;
+    case 'object': {
+      if (value === null) return 0;
+      if (value instanceof Date) return 16;
+      if (Array.isArray(value)) {
+        return value.reduce((total: number, item: any) => total + 8 + estimateSize(item), 16);
+      }
+      let total = 16;
+      for (const key in value) {
+        total += 8 + 2 * key.length + estimateSize(value[key]);
+      }
+      return total;
+    }
+    default:
+      return 0;
+  }
+}
@@ -0,0 +1,744 @@
+import { AIQQuery, Conditions, PathPattern, PatternNode, Projection, SortExpression } from '@aiws/shared';
+import { isOperatorObject } from './Conditions';
+import { PageCursor, decodeCursor } from './Cursor';
+import { IndexRange, SecondaryIndex } from './SecondaryIndex';
+
+/**
+ * Statistics the planner reads from the database indexes
+ */
+export interface PlannerStatistics {
+  totalNodes(): number;
+  /** Nodes of a type */
+  typeCount(type: string): number;
+  /** Nodes (of any type) that have a property */
+  propertyCount(key: string): number;
+  /** Secondary indexes on a type */
+  indexes(type: string): SecondaryIndex[];
+  /** Edges with a relationship */
+  relationshipCount(relationship: string): number;
+  totalEdges(): number;
+  /** Whether a COMPUTE argument ("orders.total") follows edges rather than naming a property */
+  followsEdges(argument: string): boolean;
+}
+
+interface PlanStep {
+  /** Operator arguments in readable form, e.g. "category = electronics" */
+  detail: string;
+  estimatedRows: number;
+  /** Estimated rows touched by this operator and its inputs */
+  estimatedCost: number;
+  /** Filled in by GraphMemDB.explain(): rows produced */
+  actualRows?: number;
+  /** Filled in by GraphMemDB.explain(): time including inputs */
+  actualTimeMs?: number;
+}
+
+/**
+ * Executable plan tree: access paths are leaves, every other operator
+ * consumes the rows of its input
+ */
+export type PlanNode =
+  | (PlanStep & { operator: 'TypeScan'; type?: string })
+  /** Nodes as they were at asOf, from the node history (AS OF) */
+  | (PlanStep & { operator: 'HistoryScan'; type?: string; asOf: number })
+  | (PlanStep & { operator: 'IdLookup'; type?: string; ids: (string | number)[] })
+  | (PlanStep & {
+      /** IndexLookup: equality on leading fields; IndexScan: a range and / or key order */
+      operator: 'IndexLookup' | 'IndexScan';
+      type: string;
+      index: string;
+      /** Fields the lookup answers */
+      fields: string[];
+      /** One scan per key prefix */
+      prefixes: any[][];
+      range?: IndexRange;
+      order?: 'ASC' | 'DESC';
+    })
+  | (PlanStep & { operator: 'Traverse' })
+  | (PlanStep & { operator: 'Algorithm' })
+  | (PlanStep & { operator: 'PatternExpand'; anchor: number; input: PlanNode })
+  | (PlanStep & { operator: 'Filter'; conditions: Conditions; input: PlanNode })
+  | (PlanStep & { operator: 'TextSearch'; input: PlanNode })
+  | (PlanStep & { operator: 'VectorRank'; unrestricted: boolean; input: PlanNode })
+  | (PlanStep & { operator: 'Aggregate'; input: PlanNode })
+  | (PlanStep & { operator: 'Sort'; input: PlanNode })
+  /** Sorted rows past a page cursor (AFTER) */
+  | (PlanStep & { operator: 'Cursor'; cursor: PageCursor; input: PlanNode })
+  | (PlanStep & { operator: 'Limit'; limit: number; input: PlanNode })
+  /** RETURN: shape each row */
+  | (PlanStep & { operator: 'Project'; input: PlanNode })
+  | (PlanStep & { operator: 'Write'; input?: PlanNode });
+
+export type PlanOperator = PlanNode['operator'];
+
+export interface QueryPlan {
+  root: PlanNode;
+  estimatedRows: number;
+  estimatedCost: number;
+  /** Set when the plan was executed by explain() */
+  actualRows?: number;
+  totalTimeMs?: number;
+}
+
+/** Fraction of rows assumed to pass a predicate the statistics cannot price */
+const DEFAULT_SELECTIVITY = 0.1;
+const RANGE_SELECTIVITY = 0.3;
+const BOUNDED_RANGE_SELECTIVITY = 0.1;
+/** Most key prefixes (combinations of IN values) one index access scans */
+const MAX_INDEX_PREFIXES = 64;
+
+/**
+ * Query Planner - Cost-based choice of access paths and operator order
+ *
+ * Candidate access paths for a typed node set are a type scan, a node id
+ * lookup and, per secondary index of the type, a lookup of the equality /
+ * IN values on its leading fields, optionally followed by a range on the
+ * next field or a scan in that field's order for SORT BY. WHERE and (unless
+ * aggregated) FILTER conditions both qualify. The cheapest plan including
+ * its filters and sort wins; the full conditions are re-checked on the
+ * index output. Cardinalities come from the type, secondary and
+ * relationship indexes; predicates on indexed fields are priced from the
+ * index, others with fixed selectivities. MATCH anchors at the pattern
+ * node with the cheapest estimated expansion and walks the edge indexes
+ * outwards.
+ */
+export class QueryPlanner {
+  private stats: PlannerStatistics;
+
+  constructor(stats: PlannerStatistics) {
+    this.stats = stats;
+  }
+
+  plan(query: AIQQuery): QueryPlan {
+    let root = this.planQuery(query);
+    if (query.projection && root.operator !== 'Write') root = this.project(root, query.projection);
+    return { root, estimatedRows: root.estimatedRows, estimatedCost: root.estimatedCost };
+  }
+
+  private planQuery(query: AIQQuery): PlanNode {
+    switch (query.operation) {
+      case 'INSERT':
+        return { operator: 'Write', detail: `INSERT into ${query.target}`, estimatedRows: 1, estimatedCost: 1 };
+
+      case 'UPDATE':
+      case 'DELETE': {
+        let input = this.planSelection(query.target, query.where, query.filter, query.sort);
+        if (query.limit) input = this.limit(input, query.limit);
+        return {
+          operator: 'Write',
+          detail: `${query.operation} ${query.target}`,
+          estimatedRows: input.estimatedRows,
+          estimatedCost: input.estimatedCost + input.estimatedRows,
+          input
+        };
+      }
+
+      case 'CREATE_INDEX': {
+        const { type, fields, unique } = query.index!;
+        const rows = this.stats.typeCount(type);
+        return {
+          operator: 'Write',
+          detail: `CREATE ${unique ? 'UNIQUE ' : ''}INDEX ON ${type} (${fields.join(', ')})`,
+          estimatedRows: rows,
+          estimatedCost: rows
+        };
+      }
+
+      case 'DROP_INDEX':
+        return { operator: 'Write', detail: `DROP INDEX ${query.target}`, estimatedRows: 0, estimatedCost: 1 };
+
+      case 'TRANSACTION': {
+        const statements = (query.statements || []).map(statement => this.planQuery(statement));
+        return {
+          operator: 'Write',
+          detail: `TRANSACTION (${statements.length} statements)`,
+          estimatedRows: statements.reduce((sum, statement) => sum + statement.estimatedRows, 0),
+          estimatedCost: statements.reduce((sum, statement) => sum + statement.estimatedCost, 0)
+        };
+      }
+
+      case 'CALL': {
+        const rows = query.target ? this.stats.typeCount(query.target) : this.stats.totalNodes();
+        return {
+          operator: 'Algorithm',
+          detail: `${query.algorithm?.name} over the edge indexes`,
+          estimatedRows: query.limit ? Math.min(rows, query.limit) : rows,
+          estimatedCost: this.stats.totalNodes() + this.stats.totalEdges()
+        };
+      }
+
+      case 'MATCH': {
+        let node = this.planPattern(query.pattern!);
+        if (query.sort) node = this.sort(node, query.sort);
+        if (query.limit) node = this.limit(node, query.limit);
+        return node;
+      }
+    }
+
+    const aggregated = query.compute !== undefined || query.groupBy !== undefined;
+    // Ranking and aggregation reorder the rows, so only a plain selection sorts as it selects
+    const selectionSort = aggregated || query.search || query.similar ? undefined : query.sort;
+
+    let node: PlanNode;
+    if (query.operation === 'GRAPH_TRAVERSE') {
+      node = this.planTraversal(query);
+      if (query.filter && !aggregated) node = this.filter(node, query.filter, query.target);
+      if (selectionSort) node = this.sort(node, selectionSort);
+    } else if (query.asOf !== undefined) {
+      node = this.planHistory(query.target, query.asOf, query.where, aggregated ? undefined : query.filter, selectionSort);
+    } else {
+      node = this.planSelection(query.target, query.where, aggregated ? undefined : query.filter, selectionSort);
+    }
+
+    if (query.search) {
+      const rows = Math.max(1, Math.round(node.estimatedRows * DEFAULT_SELECTIVITY));
+      node = {
+        operator: 'TextSearch',
+        detail: `"${query.search.query}" (BM25)`,
+        estimatedRows: Math.min(node.estimatedRows, rows),
+        estimatedCost: node.estimatedCost + node.estimatedRows,
+        input: node
+      };
+    }
+
+    if (query.similar) {
+      const { to, text, vector } = query.similar;
+      const reference = text !== undefined ? `"${text}"` : to !== undefined ? String(to) : `[${vector?.length}-d vector]`;
+      node = {
+        operator: 'VectorRank',
+        detail: `similarity to ${reference}`,
+        estimatedRows: query.limit ? Math.min(node.estimatedRows, query.limit) : node.estimatedRows,
+        estimatedCost: node.estimatedCost + node.estimatedRows,
+        unrestricted: query.operation === 'FETCH' && !query.where && !query.filter,
+        input: node
+      };
+    }
+
+    if (aggregated) {
+      node = {
+        operator: 'Aggregate',
+        detail: [
+          query.groupBy ? `group by ${query.groupBy.join(', ')}` : '',
+          query.compute ? Object.keys(query.compute).join(', ') : ''
+        ]
+          .filter(Boolean)
+          .join('; '),
+        estimatedRows: this.aggregateRows(query, node.estimatedRows),
+        estimatedCost: node.estimatedCost + node.estimatedRows,
+        input: node
+      };
+      if (query.filter) {
+        node = this.filter(node, query.filter, query.target);
+      }
+    }
+
+    if (query.sort && !selectionSort) node = this.sort(node, query.sort);
+    if (query.after) node = this.cursor(node, decodeCursor(query.after));
+    if (query.limit) node = this.limit(node, query.limit);
+
+    return node;
+  }
+
+  /**
+   * Cheapest way to produce the nodes of a type matching WHERE and FILTER,
+   * in SORT BY order when sort is given: an access path, the conditions
+   * themselves and a sort unless the access path is already ordered
+   */
+  private planSelection(type: string | undefined, where?: Conditions, filter?: Conditions, sort?: SortExpression): PlanNode {
+    const plans = this.accessPaths(type, [where, filter], sort).map(access => {
+      let node = access;
+      if (where) node = this.filter(node, where, type, access);
+      if (filter) node = this.filter(node, filter, type, access);
+      const ordered = (access.operator === 'IndexLookup' || access.operator === 'IndexScan') && access.order;
+      return sort && !ordered ? this.sort(node, sort) : node;
+    });
+
+    return plans.reduce((best, plan) => (plan.estimatedCost < best.estimatedCost ? plan : best));
+  }
+
+  /**
+   * Past states are only in the node history, which has no indexes: scan
+   * it, then filter and sort
+   */
+  private planHistory(
+    type: string | undefined,
+    asOf: number,
+    where?: Conditions,
+    filter?: Conditions,
+    sort?: SortExpression
+  ): PlanNode {
+    const rows = type ? this.stats.typeCount(type) : this.stats.totalNodes();
+    let node: PlanNode = {
+      operator: 'HistoryScan',
+      type,
+      asOf,
+      detail: `${type || 'all nodes'} as of ${new Date(asOf).toISOString()}`,
+      estimatedRows: rows,
+      estimatedCost: rows
+    };
+    if (where) node = this.filter(node, where, type);
+    if (filter) node = this.filter(node, filter, type);
+    return sort ? this.sort(node, sort) : node;
+  }
+
+  private accessPaths(type: string | undefined, conditions: (Conditions | undefined)[], sort?: SortExpression): PlanNode[] {
+    const typeRows = type ? this.stats.typeCount(type) : this.stats.totalNodes();
+    const candidates: PlanNode[] = [
+      {
+        operator: 'TypeScan',
+        type,
+        detail: type || 'all nodes',
+        estimatedRows: typeRows,
+        estimatedCost: typeRows
+      }
+    ];
+
+    const fieldConditions = conditions.flatMap(part => Object.entries(part || {}));
+
+    // `id` is the node id unless nodes carry an id property
+    const ids = fieldConditions.find(([key, condition]) => key === 'id' && equalityValues(condition));
+    if (ids && this.stats.propertyCount('id') === 0) {
+      const values = equalityValues(ids[1])!;
+      candidates.push({
+        operator: 'IdLookup',
+        type,
+        ids: values,
+        detail: `id ${describeValues(values)}`,
+        estimatedRows: Math.min(values.length, typeRows),
+        estimatedCost: values.length
+      });
+    }
+
+    for (const index of type ? this.stats.indexes(type) : []) {
+      const candidate = this.indexPath(index, fieldConditions, sort);
+      if (candidate) candidates.push(candidate);
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Index access: equality / IN values for a run of leading fields, then a
+   * range on the next field or, with a single prefix, that field's order
+   */
+  private indexPath(index: SecondaryIndex, conditions: [string, any][], sort?: SortExpression): PlanNode | null {
+    const condition = (field: string, accept: (condition: any) => boolean) =>
+      conditions.find(([key, value]) => key === field && accept(value))?.[1];
+
+    let prefixes: any[][] = [[]];
+    const fields: string[] = [];
+    const described: string[] = [];
+
+    for (const field of index.fields) {
+      const values = equalityValues(condition(field, value => equalityValues(value) !== null));
+      if (!values) break;
+
+      // Numbers and numeric strings match each other, so look up both where present
+      const expanded = prefixes.flatMap(prefix => {
+        const variants = values.flatMap(lookupVariants).map(value => [...prefix, value]);
+        const present = variants.filter(variant => index.estimate(variant) > 0);
+        return present.length > 0 ? present : [[...prefix, values[0]]];
+      });
+      if (expanded.length > MAX_INDEX_PREFIXES) break;
+
+      prefixes = expanded;
+      fields.push(field);
+      described.push(`${field} ${describeValues(values)}`);
+    }
+
+    const next = index.fields[fields.length];
+    const range = next !== undefined ? rangeOf(condition(next, value => rangeOf(value) !== null)) : null;
+    if (range) {
+      fields.push(next);
+      described.push(describeRange(next, range));
+    }
+
+    const order = sort && sort.field === next && prefixes.length === 1 ? sort.order : undefined;
+    if (fields.length === 0 && !order) return null;
+    if (order) described.push(`ordered by ${next} ${order}`);
+
+    const rows = Math.min(
+      prefixes.reduce((sum, prefix) => sum + index.estimate(prefix, range || undefined), 0),
+      index.size()
+    );
+    return {
+      operator: range || order ? 'IndexScan' : 'IndexLookup',
+      type: index.type,
+      index: index.name,
+      fields,
+      prefixes,
+      range: range || undefined,
+      order,
+      detail: `${index.name}: ${described.join(', ')}`,
+      estimatedRows: rows,
+      estimatedCost: rows
+    };
+  }
+
+  private filter(input: PlanNode, conditions: Conditions, type?: string, access?: PlanNode): PlanNode {
+    // Conditions already answered by an index lookup do not narrow the rows again
+    const remaining = { ...conditions };
+    if (access?.operator === 'IdLookup') {
+      delete remaining.id;
+    } else if (access?.operator === 'IndexLookup' || access?.operator === 'IndexScan') {
+      access.fields.forEach(field => delete remaining[field]);
+    }
+
+    return {
+      operator: 'Filter',
+      conditions,
+      detail: describeConditions(conditions),
+      estimatedRows: atLeastOne(input.estimatedRows * this.selectivity(remaining, type)),
+      estimatedCost: input.estimatedCost + input.estimatedRows,
+      input
+    };
+  }
+
+  private sort(input: PlanNode, sort: SortExpression): PlanNode {
+    const rows = input.estimatedRows;
+    return {
+      operator: 'Sort',
+      detail: `${sort.field} ${sort.order}`,
+      estimatedRows: rows,
+      estimatedCost: input.estimatedCost + Math.round(rows * Math.log2(Math.max(rows, 2))),
+      input
+    };
+  }
+
+  /**
+   * Skipping to the cursor reads the whole sorted input; where the cursor
+   * falls is unknown, so half the rows are assumed to follow it
+   */
+  private cursor(input: PlanNode, cursor: PageCursor): PlanNode {
+    return {
+      operator: 'Cursor',
+      cursor,
+      detail: `after ${cursor.field} ${JSON.stringify(cursor.value)}, id ${cursor.id}`,
+      estimatedRows: Math.ceil(input.estimatedRows / 2),
+      estimatedCost: input.estimatedCost + input.estimatedRows,
+      input
+    };
+  }
+
+  private project(input: PlanNode, projection: Projection): PlanNode {
+    return {
+      operator: 'Project',
+      detail: Object.keys(projection).join(', '),
+      estimatedRows: input.estimatedRows,
+      estimatedCost: input.estimatedCost + input.estimatedRows,
+      input
+    };
+  }
+
+  private limit(input: PlanNode, limit: number): PlanNode {
+    return {
+      operator: 'Limit',
+      limit,
+      detail: String(limit),
+      estimatedRows: Math.min(input.estimatedRows, limit),
+      estimatedCost: input.estimatedCost,
+      input
+    };
+  }
+
+  private planTraversal(query: AIQQuery): PlanNode {
+    const spec = query.traversal;
+    const relationships = spec?.relationships || [];
+    const maxDepth = spec?.maxDepth ?? Math.max(relationships.length, 1);
+    const direction = spec?.direction || 'out';
+
+    const total = this.stats.totalNodes();
+    const fanOut =
+      relationships.reduce((sum, relationship) => sum + this.stats.relationshipCount(relationship), 0) /
+      Math.max(total, 1) *
+      (direction === 'both' ? 2 : 1);
+
+    let frontier = 1;
+    let rows = 0;
+    for (let depth = 0; depth < maxDepth; depth++) {
+      frontier *= fanOut;
+      rows += frontier;
+    }
+    rows = Math.min(atLeastOne(rows), total);
+
+    const target = query.target && this.stats.typeCount(query.target) > 0 ? query.target : undefined;
+    return {
+      operator: 'Traverse',
+      detail:
+        `from ${spec?.start ?? query.where?.start} via ${relationships.join(', ') || '(none)'} ` +
+        `(${direction}, depth ${maxDepth}, edge index)${target ? `, keep ${target}` : ''}`,
+      estimatedRows: target ? Math.min(rows, this.stats.typeCount(target)) : rows,
+      estimatedCost: rows + 1
+    };
+  }
+
+  /**
+   * Anchor the pattern at the node whose expansion touches the fewest rows
+   */
+  private planPattern(pattern: PathPattern): PlanNode {
+    const seeds = pattern.nodes.map(node => {
+      const conditions = mergeConditions(node);
+      return { conditions, selection: this.planSelection(node.type, conditions) };
+    });
+
+    let best: { anchor: number; rows: number; cost: number } | undefined;
+    for (let anchor = 0; anchor < pattern.nodes.length; anchor++) {
+      let rows = seeds[anchor].selection.estimatedRows;
+      let cost = seeds[anchor].selection.estimatedCost;
+
+      const expand = (from: number, to: number) => {
+        const hop = pattern.hops[Math.min(from, to)];
+        const expanded = rows * this.fanOut(hop.relationship, pattern.nodes[from]);
+        cost += expanded;
+        rows = expanded * this.selectivity(seeds[to].conditions || {}, pattern.nodes[to].type);
+      };
+      for (let i = anchor; i < pattern.nodes.length - 1; i++) expand(i, i + 1);
+      for (let i = anchor; i > 0; i--) expand(i, i - 1);
+
+      if (!best || cost < best.cost) {
+        best = { anchor, rows, cost };
+      }
+    }
+
+    const anchorNode = pattern.nodes[best!.anchor];
+    return {
+      operator: 'PatternExpand',
+      anchor: best!.anchor,
+      detail: `anchor ${anchorNode.alias}:${anchorNode.type || '*'}, ${pattern.hops.length} hop(s) via edge index`,
+      estimatedRows: atLeastOne(best!.rows),
+      estimatedCost: Math.round(best!.cost),
+      input: seeds[best!.anchor].selection
+    };
+  }
+
+  /**
+   * Average neighbours per node over a relationship: its edges spread over
+   * the nodes of the type being expanded from (as sources or as targets)
+   */
+  private fanOut(relationship: string, from: PatternNode): number {
+    const nodes = from.type ? this.stats.typeCount(from.type) : this.stats.totalNodes();
+    return this.stats.relationshipCount(relationship) / Math.max(nodes, 1);
+  }
+
+  private aggregateRows(query: AIQQuery, inputRows: number): number {
+    if (query.groupBy) {
+      // Fields without an index are assumed to split the rows finely
+      const groups = query.groupBy.reduce(
+        (product, field) =>
+          product *
+          (this.leadingIndex(query.target, field)?.distinctValues() ||
+            Math.max(1, Math.round(inputRows * DEFAULT_SELECTIVITY))),
+        1
+      );
+      return Math.min(groups, inputRows);
+    }
+    // Aggregates over relationships keep one row per node
+    const perNode = Object.values(query.compute || {}).some(
+      expression => expression.field !== undefined && this.stats.followsEdges(expression.field)
+    );
+    return perNode ? inputRows : 1;
+  }
+
+  /**
+   * Estimated fraction of nodes of a type that satisfy conditions
+   */
+  private selectivity(conditions: Conditions, type?: string): number {
+    let selectivity = 1;
+
+    for (const [key, condition] of Object.entries(conditions)) {
+      switch (key) {
+        case '$and':
+          selectivity *= (condition as Conditions[]).reduce((product, part) => product * this.selectivity(part, type), 1);
+          break;
+        case '$or':
+          selectivity *= 1 - (condition as Conditions[]).reduce((product, part) => product * (1 - this.selectivity(part, type)), 1);
+          break;
+        case '$not':
+          selectivity *= 1 - this.selectivity(condition, type);
+          break;
+        default:
+          selectivity *= this.fieldSelectivity(key, condition, type);
+      }
+    }
+
+    return Math.min(Math.max(selectivity, 0), 1);
+  }
+
+  private fieldSelectivity(key: string, condition: any, type?: string): number {
+    if (!isOperatorObject(condition)) {
+      return this.equalitySelectivity(key, condition, type);
+    }
+
+    let selectivity = 1;
+    const range = rangeOf(condition);
+    if (range) {
+      selectivity *= this.rangeSelectivity(key, range, type);
+    }
+
+    for (const [operator, operand] of Object.entries<any>(condition)) {
+      switch (operator) {
+        case '$eq':
+          selectivity *= this.equalitySelectivity(key, operand, type);
+          break;
+        case '$ne':
+          selectivity *= 1 - this.equalitySelectivity(key, operand, type);
+          break;
+        case '$in':
+          selectivity *= Math.min(
+            1,
+            (operand as any[]).reduce((sum, value) => sum + this.equalitySelectivity(key, value, type), 0)
+          );
+          break;
+        case '$exists':
+          selectivity *= operand ? 1 - DEFAULT_SELECTIVITY : DEFAULT_SELECTIVITY;
+          break;
+        case '$like':
+        case '$contains':
+          selectivity *= DEFAULT_SELECTIVITY;
+          break;
+      }
+    }
+
+    return selectivity;
+  }
+
+  private equalitySelectivity(key: string, value: any, type?: string): number {
+    const rows = type ? this.stats.typeCount(type) : this.stats.totalNodes();
+    if (rows === 0) return 0;
+
+    if (key === 'id' && this.stats.propertyCount('id') === 0) {
+      return 1 / rows;
+    }
+
+    const index = this.leadingIndex(type, key);
+    if (!index) return DEFAULT_SELECTIVITY;
+
+    if (isIndexable(value)) {
+      const matches = lookupVariants(value).reduce((sum, variant) => sum + index.estimate([variant]), 0);
+      return Math.min(matches / rows, 1);
+    }
+    return 1 / Math.max(index.distinctValues(), 1);
+  }
+
+  private rangeSelectivity(key: string, range: IndexRange, type?: string): number {
+    const index = this.leadingIndex(type, key);
+    if (index && index.size() > 0) {
+      return index.estimate([], range) / index.size();
+    }
+    return Object.keys(range).length > 1 ? BOUNDED_RANGE_SELECTIVITY : RANGE_SELECTIVITY;
+  }
+
+  /**
+   * An index of the type whose first field is key (the smallest, for the
+   * most precise distinct counts)
+   */
+  private leadingIndex(type: string | undefined, key: string): SecondaryIndex | undefined {
+    if (!type) return undefined;
+    return this.stats
+      .indexes(type)
+      .filter(index => index.fields[0] === key)
+      .sort((a, b) => a.fields.length - b.fields.length)[0];
+  }
+}
+
+/**
+ * Readable tree: one operator per line, inputs indented below
+ */
+export function formatPlan(plan: QueryPlan): string {
+  const lines: string[] = [];
+
+  const visit = (node: PlanNode, depth: number) => {
+    let line = `${'  '.repeat(depth)}${depth > 0 ? '-> ' : ''}${node.operator} (${node.detail})`;
+    line += `  est. rows=${node.estimatedRows} cost=${node.estimatedCost}`;
+    if (node.actualRows !== undefined) {
+      line += `  actual rows=${node.actualRows} time=${node.actualTimeMs!.toFixed(3)}ms`;
+    }
+    lines.push(line);
+
+    if ('input' in node && node.input) visit(node.input, depth + 1);
+  };
+
+  visit(plan.root, 0);
+  if (plan.totalTimeMs !== undefined) {
+    lines.push(`Total: ${plan.actualRows} row(s) in ${plan.totalTimeMs.toFixed(3)}ms`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Values an equality or IN condition selects, or null for other conditions
+ */
+function equalityValues(condition: any): any[] | null {
+  if (!isOperatorObject(condition)) {
+    return isIndexable(condition) ? [condition] : null;
+  }
+
+  const operators = Object.keys(condition);
+  if (operators.length !== 1) return null;
+  if (operators[0] === '$eq' && isIndexable(condition.$eq)) return [condition.$eq];
+  if (operators[0] === '$in' && Array.isArray(condition.$in) && condition.$in.every(isIndexable)) {
+    return condition.$in;
+  }
+  return null;
+}
+
+/**
+ * Index keys are the stored values; conditions match numbers and numeric
+ * strings interchangeably, so look up both
+ */
+function lookupVariants(value: any): any[] {
+  if (typeof value === 'number') return [value, String(value)];
+  if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+    return [value, Number(value)];
+  }
+  return [value];
+}
+
+/**
+ * Round an estimate, keeping a non-zero fraction at one row
+ */
+function atLeastOne(rows: number): number {
+  return rows > 0 ? Math.max(1, Math.round(rows)) : 0;
+}
+
+function isIndexable(value: any): boolean {
+  return ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+function mergeConditions(node: PatternNode): Conditions | undefined {
+  if (!node.where) return node.filter;
+  if (!node.filter) return node.where;
+  return { $and: [node.where, node.filter] };
+}
+
+/**
+ * The range operators of a condition, or null when it has none
+ */
+function rangeOf(condition: any): IndexRange | null {
+  if (!isOperatorObject(condition)) return null;
+
+  const range: IndexRange = {};
+  for (const operator of ['$gt', '$gte', '$lt', '$lte'] as const) {
+    if (condition[operator] !== undefined) range[operator] = condition[operator];
+  }
+  return Object.keys(range).length > 0 ? range : null;
+}
+
+function describeRange(field: string, range: IndexRange): string {
+  const symbols: Record<string, string> = { $gt: '>', $gte: '>=', $lt: '<', $lte: '<=' };
+  return Object.entries(range)
+    .map(([operator, value]) => `${field} ${symbols[operator]} ${formatValue(value)}`)
+    .join(' AND ');
+}
+
+function formatValue(value: any): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function describeValues(values: any[]): string {
+  return values.length === 1 ? `= ${values[0]}` : `IN [${values.join(', ')}]`;
+}
+
+function describeConditions(conditions: Conditions): string {
+  return JSON.stringify(conditions, (_key, value) => (value instanceof Date ? value.toISOString() : value));
+}
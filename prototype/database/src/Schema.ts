@@ -0,0 +1,357 @@
+import { AIQQuery, Conditions, GraphEdge, GraphNode, NodeSchema, PropertySchema } from '@aiws/shared';
+import { isOperatorObject } from './Conditions';
+
+/** Fields every result has besides its properties */
+const RESULT_FIELDS = ['id', 'type', 'similarity', 'score'];
+
+/** Aggregates that need a numeric field */
+const NUMERIC_AGGREGATES = ['SUM', 'AVG'];
+
+/**
+ * Schema Error - A write or query that does not match the node type
+ * schemas; lists every problem found
+ */
+export class SchemaError extends Error {
+  readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Schema validation failed: ${errors.join('; ')}`);
+    this.name = 'SchemaError';
+    this.errors = errors;
+  }
+
+  toJSON(): any {
+    return {
+      message: this.message,
+      errors: this.errors
+    };
+  }
+}
+
+/**
+ * Problems with a node against the schema of its type. Edge targets are
+ * type-checked when targetType knows them; edges to nodes that do not
+ * exist (yet) are not.
+ */
+export function validateNode(
+  schema: NodeSchema,
+  node: GraphNode,
+  targetType: (id: string | number) => string | undefined
+): string[] {
+  const subject = `${node.type} ${node.id}`;
+  return [
+    ...validateProperties(schema, node.properties, true),
+    ...validateEdges(schema, node.edges, targetType)
+  ].map(error => `${subject}: ${error}`);
+}
+
+/**
+ * Problems with a parsed query against the schemas of the types it reads
+ * or writes: unknown fields, values of the wrong type or outside an enum,
+ * non-numeric SUM / AVG fields and relationships a type may not have.
+ * Types without a schema are not checked.
+ */
+export function validateQuery(
+  query: AIQQuery,
+  schemaOf: (type: string) => NodeSchema | undefined,
+  targetType: (id: string | number) => string | undefined
+): string[] {
+  if (query.operation === 'TRANSACTION') {
+    return (query.statements || []).flatMap(statement => validateQuery(statement, schemaOf, targetType));
+  }
+  if (query.operation === 'MATCH' && query.pattern) {
+    return validatePattern(query, schemaOf);
+  }
+
+  const schema = schemaOf(query.target);
+  if (!schema) return [];
+
+  const errors: string[] = [];
+  switch (query.operation) {
+    case 'FETCH':
+    case 'UPDATE':
+    case 'DELETE': {
+      const computed = Object.keys(query.compute || {});
+      errors.push(...validateConditions(schema, query.where, []));
+      errors.push(...validateConditions(schema, query.filter, computed));
+      errors.push(...validateFields(schema, query.groupBy || [], []));
+      if (query.sort) errors.push(...validateFields(schema, [query.sort.field], computed));
+
+      for (const [name, expression] of Object.entries(query.compute || {})) {
+        const spec = expression.field ? schema.properties[expression.field] : undefined;
+        if (spec && NUMERIC_AGGREGATES.includes(expression.function) && !['number', 'any'].includes(spec.type)) {
+          errors.push(`${name}: ${expression.function}(${expression.field}) needs a number, ${expression.field} is a ${spec.type}`);
+        }
+      }
+      break;
+    }
+    case 'CREATE_INDEX':
+      errors.push(...validateFields(schema, query.index?.fields || [], []));
+      break;
+  }
+
+  if (query.operation === 'INSERT' && query.values) {
+    const { id, ...properties } = query.values;
+    errors.push(...validateProperties(schema, properties, true));
+  }
+  if (query.operation === 'UPDATE' && query.set) {
+    errors.push(...validateProperties(schema, query.set, false));
+  }
+  if (query.link) {
+    errors.push(...validateEdges(schema, query.link, targetType));
+  }
+
+  return errors.map(error => `${query.target}: ${error}`);
+}
+
+/**
+ * Whether a value has a property type; dates may be ISO date strings
+ */
+export function matchesType(type: PropertySchema['type'], value: any): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'date':
+      return value instanceof Date
+        ? !isNaN(value.getTime())
+        : typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value) && !isNaN(Date.parse(value));
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Property values against the schema; complete checks a whole node
+ * (required properties present), otherwise only the given properties
+ */
+function validateProperties(schema: NodeSchema, properties: Record<string, any>, complete: boolean): string[] {
+  const errors: string[] = [];
+
+  for (const [key, spec] of Object.entries(schema.properties)) {
+    const value = properties[key];
+    if (value === undefined || value === null) {
+      if (spec.required && (complete || key in properties)) {
+        errors.push(`missing required property ${key}`);
+      }
+      continue;
+    }
+    if (!matchesType(spec.type, value)) {
+      errors.push(`${key} must be a ${spec.type}, got ${describe(value)}`);
+    } else if (spec.enum && !spec.enum.includes(value)) {
+      errors.push(`${key} must be one of ${spec.enum.join(', ')}, got ${describe(value)}`);
+    }
+  }
+
+  if (schema.strict !== false) {
+    for (const key of Object.keys(properties)) {
+      if (!(key in schema.properties)) errors.push(`unknown property ${key}${suggestion(key, schema)}`);
+    }
+  }
+  return errors;
+}
+
+function validateEdges(
+  schema: NodeSchema,
+  edges: GraphEdge[],
+  targetType: (id: string | number) => string | undefined
+): string[] {
+  if (!schema.edges) return [];
+
+  const errors: string[] = [];
+  for (const edge of edges) {
+    const allowed = schema.edges[edge.relationship];
+    if (!allowed) {
+      errors.push(`relationship ${edge.relationship} is not allowed on ${schema.type}${allowedRelationships(schema)}`);
+      continue;
+    }
+
+    const type = targetType(edge.target);
+    if (allowed.length > 0 && type !== undefined && !allowed.includes(type)) {
+      errors.push(`${edge.relationship} must point at ${allowed.join(' or ')}, ${edge.target} is a ${type}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Fields of WHERE / FILTER conditions: known, and compared with values
+ * their property could hold. Conditions are as forgiving as matching is:
+ * numeric strings compare with numbers, dates with ISO strings.
+ */
+function validateConditions(schema: NodeSchema, conditions: Conditions | undefined, computed: string[]): string[] {
+  const errors: string[] = [];
+
+  for (const [key, condition] of Object.entries(conditions || {})) {
+    if (key === '$and' || key === '$or') {
+      for (const part of condition as Conditions[]) errors.push(...validateConditions(schema, part, computed));
+      continue;
+    }
+    if (key === '$not') {
+      errors.push(...validateConditions(schema, condition, computed));
+      continue;
+    }
+
+    const unknown = validateFields(schema, [key], computed);
+    if (unknown.length > 0) {
+      errors.push(...unknown);
+      continue;
+    }
+
+    const spec = schema.properties[key];
+    if (!spec) continue;
+
+    for (const value of comparedValues(condition)) {
+      if (!comparable(spec, value)) {
+        errors.push(`${key} is a ${spec.type}, cannot compare with ${describe(value)}`);
+      } else if (spec.enum && !spec.enum.some(allowed => String(allowed) === String(value))) {
+        errors.push(`${key} must be one of ${spec.enum.join(', ')}, got ${describe(value)}`);
+      }
+    }
+  }
+  return errors;
+}
+
+function validateFields(schema: NodeSchema, fields: string[], computed: string[]): string[] {
+  if (schema.strict === false) return [];
+
+  return fields
+    .filter(field => !(field in schema.properties) && !RESULT_FIELDS.includes(field) && !computed.includes(field))
+    .map(field => `unknown field ${field}${suggestion(field, schema)}`);
+}
+
+/**
+ * MATCH: each pattern node's conditions against its type, and each hop's
+ * relationship against the schema of the node it leaves
+ */
+function validatePattern(query: AIQQuery, schemaOf: (type: string) => NodeSchema | undefined): string[] {
+  const { nodes, hops } = query.pattern!;
+  const errors: string[] = [];
+
+  for (const node of nodes) {
+    const schema = node.type ? schemaOf(node.type) : undefined;
+    if (!schema) continue;
+    errors.push(
+      ...[...validateConditions(schema, node.where, []), ...validateConditions(schema, node.filter, [])].map(
+        error => `${node.alias}: ${error}`
+      )
+    );
+  }
+
+  hops.forEach((hop, i) => {
+    const ends = [
+      { from: nodes[i], to: nodes[i + 1], check: hop.direction !== 'in' },
+      { from: nodes[i + 1], to: nodes[i], check: hop.direction !== 'out' }
+    ];
+    const problems = ends
+      .filter(end => end.check)
+      .map(end => hopProblem(end.from.type ? schemaOf(end.from.type) : undefined, hop.relationship, end.to.type));
+
+    // A two-way hop only needs one end that can hold the edge
+    const failed = hop.direction === 'both' ? (problems.every(Boolean) ? problems : []) : problems;
+    for (const problem of failed) {
+      if (problem) errors.push(`${nodes[i].alias} -${hop.relationship}- ${nodes[i + 1].alias}: ${problem}`);
+    }
+  });
+
+  if (query.sort) {
+    const [alias, field] = query.sort.field.split('.');
+    const type = nodes.find(node => node.alias === alias)?.type;
+    const schema = type ? schemaOf(type) : undefined;
+    if (schema && field) errors.push(...validateFields(schema, [field], []).map(error => `${alias}: ${error}`));
+  }
+
+  return errors;
+}
+
+function hopProblem(schema: NodeSchema | undefined, relationship: string, targetType?: string): string | undefined {
+  if (!schema?.edges) return undefined;
+
+  const allowed = schema.edges[relationship];
+  if (!allowed) return `${schema.type} has no ${relationship} relationship${allowedRelationships(schema)}`;
+  if (targetType && allowed.length > 0 && !allowed.includes(targetType)) {
+    return `${schema.type} ${relationship} points at ${allowed.join(' or ')}, not ${targetType}`;
+  }
+  return undefined;
+}
+
+/**
+ * Values a condition compares against (not LIKE / CONTAINS patterns or EXISTS)
+ */
+function comparedValues(condition: any): any[] {
+  if (!isOperatorObject(condition)) return [condition];
+
+  const values: any[] = [];
+  for (const [operator, operand] of Object.entries(condition)) {
+    if (operator === '$in') values.push(...(operand as any[]));
+    else if (['$eq', '$ne', '$gt', '$gte', '$lt', '$lte'].includes(operator)) values.push(operand);
+  }
+  return values.filter(value => value !== null && value !== undefined);
+}
+
+function comparable(spec: PropertySchema, value: any): boolean {
+  switch (spec.type) {
+    case 'number':
+      return typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)));
+    case 'string':
+      return typeof value === 'string' || typeof value === 'number';
+    case 'date':
+      return matchesType('date', value) || typeof value === 'number';
+    default:
+      return matchesType(spec.type, value);
+  }
+}
+
+function allowedRelationships(schema: NodeSchema): string {
+  const relationships = Object.keys(schema.edges || {});
+  return relationships.length > 0 ? ` (allowed: ${relationships.join(', ')})` : '';
+}
+
+/**
+ * " (did you mean email?)" for a name within two edits of a declared property
+ */
+function suggestion(name: string, schema: NodeSchema): string {
+  let best: string | undefined;
+  let bestDistance = 3;
+
+  for (const candidate of Object.keys(schema.properties)) {
+    const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance && distance < candidate.length / 2) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best ? ` (did you mean ${best}?)` : '';
+}
+
+/**
+ * Edits (insert, delete, substitute, swap adjacent) turning a into b
+ */
+function editDistance(a: string, b: string): number {
+  const d = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+function describe(value: any): string {
+  if (value instanceof Date) return `date ${value.toISOString()}`;
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'string' ? `"${value}"` : `${typeof value} ${JSON.stringify(value)}`;
+}
@@ -0,0 +1,287 @@
+import { GraphNode, IndexDefinition } from '@aiws/shared';
+import { fieldValue, matchesValue, orderValues, sortKind } from './Conditions';
+
+/**
+ * Bounds of a range scan over the field after the equality prefix
+ */
+export interface IndexRange {
+  $gt?: any;
+  $gte?: any;
+  $lt?: any;
+  $lte?: any;
+}
+
+interface IndexEntry {
+  key: any[];
+  ids: Set<string>;
+}
+
+/**
+ * Secondary Index - Sorted index over properties of one node type
+ *
+ * Each node is keyed by its values of the indexed fields (missing values
+ * as null). Equality lookups on the full key are hashed; prefix lookups,
+ * range scans and ordered scans binary-search the entries in key order,
+ * which sorts every field like SORT BY (see orderValues) and is rebuilt
+ * lazily after keys are added or removed. A range compares values of the
+ * bound's kind through the sorted order and checks values of other kinds
+ * (numeric strings, ISO date strings) one by one, so a scan returns every
+ * node the condition matches.
+ *
+ * A unique index rejects a second node with the same complete key; keys
+ * with a missing field are not constrained.
+ */
+export class SecondaryIndex {
+  readonly name: string;
+  readonly type: string;
+  readonly fields: string[];
+  readonly unique: boolean;
+  private entries: Map<string, IndexEntry> = new Map();
+  /** Entries in key order; null until the next ordered read after a key change */
+  private sorted: IndexEntry[] | null = null;
+  private leadingValues = 0;
+  private rows = 0;
+
+  constructor(definition: IndexDefinition) {
+    if (definition.fields.length === 0) {
+      throw new Error(`Index on ${definition.type} needs at least one field`);
+    }
+    this.name = definition.name || indexName(definition);
+    this.type = definition.type;
+    this.fields = [...definition.fields];
+    this.unique = definition.unique ?? false;
+  }
+
+  definition(): IndexDefinition {
+    return { name: this.name, type: this.type, fields: [...this.fields], unique: this.unique };
+  }
+
+  add(id: string, node: GraphNode): void {
+    const key = this.keyOf(node);
+    const encoded = encodeKey(key);
+
+    let entry = this.entries.get(encoded);
+    if (!entry) {
+      entry = { key, ids: new Set() };
+      this.entries.set(encoded, entry);
+      this.sorted = null;
+    }
+    if (!entry.ids.has(id)) {
+      entry.ids.add(id);
+      this.rows++;
+    }
+  }
+
+  remove(id: string, node: GraphNode): void {
+    const encoded = encodeKey(this.keyOf(node));
+    const entry = this.entries.get(encoded);
+    if (!entry?.ids.delete(id)) return;
+
+    this.rows--;
+    if (entry.ids.size === 0) {
+      this.entries.delete(encoded);
+      this.sorted = null;
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.sorted = null;
+    this.rows = 0;
+  }
+
+  /**
+   * Id of another node holding the key this node would get, for unique indexes
+   */
+  conflict(id: string, node: GraphNode): string | undefined {
+    if (!this.unique) return undefined;
+
+    const key = this.keyOf(node);
+    if (key.some(value => value === null)) return undefined;
+
+    for (const holder of this.entries.get(encodeKey(key))?.ids || []) {
+      if (holder !== id) return holder;
+    }
+    return undefined;
+  }
+
+  /**
+   * Ids whose key starts with prefix (and whose next field is within range),
+   * in key order
+   */
+  scan(prefix: any[], range?: IndexRange, descending = false): string[] {
+    let entries: IndexEntry[];
+
+    if (prefix.length === this.fields.length && !range) {
+      const entry = this.entries.get(encodeKey(prefix));
+      entries = entry ? [entry] : [];
+    } else {
+      const ordered = this.ordered();
+      const [lo, hi] = this.region(prefix);
+
+      if (!range) {
+        entries = ordered.slice(lo, hi);
+      } else {
+        const position = prefix.length;
+        const inRange = (entry: IndexEntry) => matchesValue(entry.key[position], range);
+        const bounds = this.rangeBounds(lo, hi, position, range);
+
+        entries = bounds
+          ? [
+              ...ordered.slice(lo, bounds.kindFrom).filter(inRange),
+              ...ordered.slice(bounds.from, bounds.to),
+              ...ordered.slice(bounds.kindTo, hi).filter(inRange)
+            ]
+          : ordered.slice(lo, hi).filter(inRange);
+      }
+    }
+
+    if (descending) entries.reverse();
+    return entries.flatMap(entry => Array.from(entry.ids));
+  }
+
+  /**
+   * Estimated rows a scan returns: exact for a full key, otherwise the
+   * entries in the sorted region times the average rows per entry
+   */
+  estimate(prefix: any[], range?: IndexRange): number {
+    if (prefix.length === this.fields.length && !range) {
+      return this.entries.get(encodeKey(prefix))?.ids.size || 0;
+    }
+
+    const [lo, hi] = this.region(prefix);
+    let count = hi - lo;
+    if (range) {
+      const bounds = this.rangeBounds(lo, hi, prefix.length, range);
+      if (bounds) count = bounds.to - bounds.from;
+    }
+    return count === 0 ? 0 : Math.max(1, Math.round((count * this.rows) / this.entries.size));
+  }
+
+  /**
+   * Distinct values of the leading field
+   */
+  distinctValues(): number {
+    if (this.fields.length === 1) return this.entries.size;
+    this.ordered();
+    return this.leadingValues;
+  }
+
+  size(): number {
+    return this.rows;
+  }
+
+  getStats(): any {
+    return {
+      ...this.definition(),
+      entries: this.entries.size,
+      rows: this.rows
+    };
+  }
+
+  private keyOf(node: GraphNode): any[] {
+    return this.fields.map(field => fieldValue(node, field) ?? null);
+  }
+
+  private ordered(): IndexEntry[] {
+    if (!this.sorted) {
+      this.sorted = Array.from(this.entries.values()).sort((a, b) => compareKeys(a.key, b.key, this.fields.length));
+      this.leadingValues = this.sorted.filter(
+        (entry, i) => i === 0 || orderValues(entry.key[0], this.sorted![i - 1].key[0]) !== 0
+      ).length;
+    }
+    return this.sorted;
+  }
+
+  /**
+   * [lo, hi) of the sorted entries whose key starts with prefix
+   */
+  private region(prefix: any[]): [number, number] {
+    const ordered = this.ordered();
+    const lo = firstIndex(0, ordered.length, i => compareKeys(ordered[i].key, prefix, prefix.length) >= 0);
+    const hi = firstIndex(lo, ordered.length, i => compareKeys(ordered[i].key, prefix, prefix.length) > 0);
+    return [lo, hi];
+  }
+
+  /**
+   * Within [lo, hi): the entries whose field at position has the kind of the
+   * range bounds (kindFrom..kindTo) and, among them, those within the bounds
+   * (from..to). Null when the bounds are of different kinds.
+   */
+  private rangeBounds(
+    lo: number,
+    hi: number,
+    position: number,
+    range: IndexRange
+  ): { kindFrom: number; kindTo: number; from: number; to: number } | null {
+    const lower = bound(range.$gt, range.$gte);
+    const upper = bound(range.$lt, range.$lte);
+
+    const kinds = new Set([lower, upper].filter(Boolean).map(limit => sortKind(limit!.value)));
+    if (kinds.size !== 1) return null;
+    const kind = Array.from(kinds)[0];
+
+    const ordered = this.ordered();
+    const valueAt = (i: number) => ordered[i].key[position];
+    const kindFrom = firstIndex(lo, hi, i => sortKind(valueAt(i)) >= kind);
+    const kindTo = firstIndex(kindFrom, hi, i => sortKind(valueAt(i)) > kind);
+
+    const from = lower
+      ? firstIndex(kindFrom, kindTo, i => {
+          const comparison = orderValues(valueAt(i), lower.value);
+          return lower.inclusive ? comparison >= 0 : comparison > 0;
+        })
+      : kindFrom;
+    const to = upper
+      ? firstIndex(from, kindTo, i => {
+          const comparison = orderValues(valueAt(i), upper.value);
+          return upper.inclusive ? comparison > 0 : comparison >= 0;
+        })
+      : kindTo;
+
+    return { kindFrom, kindTo, from, to };
+  }
+}
+
+/**
+ * Default index name: type_field1_field2
+ */
+export function indexName(definition: IndexDefinition): string {
+  return [definition.type, ...definition.fields].join('_');
+}
+
+/**
+ * Hash key of an index key; dates by time, numbers and strings kept apart
+ */
+function encodeKey(key: any[]): string {
+  return JSON.stringify(key.map(value => (value instanceof Date ? { $date: value.getTime() } : value)));
+}
+
+/**
+ * A strict ($gt / $lt) or inclusive ($gte / $lte) bound; strict wins
+ */
+function bound(strict: any, inclusive: any): { value: any; inclusive: boolean } | undefined {
+  if (strict !== undefined) return { value: strict, inclusive: false };
+  if (inclusive !== undefined) return { value: inclusive, inclusive: true };
+  return undefined;
+}
+
+function compareKeys(a: any[], b: any[], length: number): number {
+  for (let i = 0; i < length; i++) {
+    const comparison = orderValues(a[i], b[i]);
+    if (comparison !== 0) return comparison;
+  }
+  return 0;
+}
+
+/**
+ * First index in [lo, hi) where a monotone predicate holds (hi if none)
+ */
+function firstIndex(lo: number, hi: number, predicate: (i: number) => boolean): number {
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (predicate(mid)) hi = mid;
+    else lo = mid + 1;
+  }
+  return lo;
+}
@@ -0,0 +1,218 @@
+export interface TextIndexOptions {
+  /** BM25 term-frequency saturation (default 1.2) */
+  k1?: number;
+  /** BM25 length normalisation (default 0.75) */
+  b?: number;
+}
+
+export interface TextSearchOptions {
+  /** Match the last query term as a prefix (search-as-you-type) */
+  prefix?: boolean;
+  limit?: number;
+}
+
+export interface TextMatch {
+  id: string;
+  score: number;
+}
+
+interface QueryTerm {
+  text: string;
+  prefix: boolean;
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is',
+  'it', 'of', 'on', 'or', 'the', 'to', 'with'
+]);
+
+/**
+ * Lowercase, split on anything that is not a letter or digit, drop stop words
+ */
+export function tokenize(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return words.filter(word => !STOP_WORDS.has(word));
+}
+
+/**
+ * Light suffix-stripping stemmer (plurals, -ing, -ed, -ly), enough to
+ * match "lamps" with "lamp" and "running" with "run"
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+
+  if (word.endsWith('ies') && word.length > 4) {
+    word = word.slice(0, -3) + 'y';
+  } else if (word.endsWith('sses')) {
+    word = word.slice(0, -2);
+  } else if (word.endsWith('s') && !/(ss|us|is)$/.test(word)) {
+    word = word.slice(0, -1);
+  }
+
+  for (const suffix of ['ing', 'ed', 'ly']) {
+    const base = word.slice(0, -suffix.length);
+    if (word.endsWith(suffix) && base.length >= 3 && /[aeiouy]/.test(base)) {
+      // "running" -> "runn" -> "run"
+      if (/([^aeiouylsz])\1$/.test(base)) return base.slice(0, -1);
+      return base;
+    }
+  }
+
+  return word;
+}
+
+/**
+ * Full-Text Index - Inverted index with BM25 ranking
+ *
+ * Each document is the concatenation of the indexed fields of one node.
+ * Query terms are ORed; a term ending in * (or the last term with the
+ * prefix option) matches every indexed term starting with it.
+ */
+export class FullTextIndex {
+  private postings: Map<string, Map<string, number>>;
+  private documents: Map<string, { length: number; terms: string[] }>;
+  private totalLength = 0;
+  private sortedTerms: string[] | null = null;
+  private k1: number;
+  private b: number;
+
+  constructor(options: TextIndexOptions = {}) {
+    this.postings = new Map();
+    this.documents = new Map();
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+  }
+
+  /**
+   * Index (or re-index) a document
+   */
+  add(id: string, text: string): void {
+    this.remove(id);
+
+    const terms = tokenize(text).map(stem);
+    if (terms.length === 0) return;
+
+    const frequencies = new Map<string, number>();
+    for (const term of terms) {
+      frequencies.set(term, (frequencies.get(term) || 0) + 1);
+    }
+
+    for (const [term, frequency] of frequencies) {
+      if (!this.postings.has(term)) {
+        this.postings.set(term, new Map());
+        this.sortedTerms = null;
+      }
+      this.postings.get(term)!.set(id, frequency);
+    }
+
+    this.documents.set(id, { length: terms.length, terms: Array.from(frequencies.keys()) });
+    this.totalLength += terms.length;
+  }
+
+  remove(id: string): boolean {
+    const document = this.documents.get(id);
+    if (!document) return false;
+
+    for (const term of document.terms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+      posting.delete(id);
+      if (posting.size === 0) {
+        this.postings.delete(term);
+        this.sortedTerms = null;
+      }
+    }
+
+    this.documents.delete(id);
+    this.totalLength -= document.length;
+    return true;
+  }
+
+  /**
+   * Rank documents against a free-text query, best first
+   */
+  search(query: string, options: TextSearchOptions = {}): TextMatch[] {
+    const queryTerms = this.parseQuery(query, options.prefix === true);
+    if (queryTerms.length === 0 || this.documents.size === 0) return [];
+
+    const averageLength = this.totalLength / this.documents.size;
+    const scores = new Map<string, number>();
+
+    for (const queryTerm of queryTerms) {
+      // A prefix term contributes its best-scoring expansion per document
+      const termScores = new Map<string, number>();
+
+      for (const term of this.expand(queryTerm)) {
+        const posting = this.postings.get(term)!;
+        const idf = Math.log(1 + (this.documents.size - posting.size + 0.5) / (posting.size + 0.5));
+
+        for (const [id, frequency] of posting) {
+          const length = this.documents.get(id)!.length;
+          const score =
+            (idf * frequency * (this.k1 + 1)) /
+            (frequency + this.k1 * (1 - this.b + (this.b * length) / averageLength));
+          termScores.set(id, Math.max(termScores.get(id) || 0, score));
+        }
+      }
+
+      for (const [id, score] of termScores) {
+        scores.set(id, (scores.get(id) || 0) + score);
+      }
+    }
+
+    const matches = Array.from(scores, ([id, score]) => ({ id, score })).sort(
+      (a, b) => b.score - a.score
+    );
+    return options.limit !== undefined ? matches.slice(0, options.limit) : matches;
+  }
+
+  size(): number {
+    return this.documents.size;
+  }
+
+  getStats(): any {
+    return {
+      documents: this.documents.size,
+      terms: this.postings.size,
+      averageLength: this.documents.size ? this.totalLength / this.documents.size : 0
+    };
+  }
+
+  private parseQuery(query: string, prefixLast: boolean): QueryTerm[] {
+    const rawTerms = query.toLowerCase().match(/[\p{L}\p{N}]+\*?/gu) || [];
+
+    return rawTerms
+      .map((raw, i) => {
+        const prefix = raw.endsWith('*') || (prefixLast && i === rawTerms.length - 1);
+        const word = raw.replace(/\*$/, '');
+        // Prefixes are matched unstemmed: "lam" must still reach "lamp"
+        return { text: prefix ? word : stem(word), prefix };
+      })
+      .filter(term => term.prefix || !STOP_WORDS.has(term.text));
+  }
+
+  private expand(queryTerm: QueryTerm): string[] {
+    if (!queryTerm.prefix) {
+      return this.postings.has(queryTerm.text) ? [queryTerm.text] : [];
+    }
+
+    if (!this.sortedTerms) {
+      this.sortedTerms = Array.from(this.postings.keys()).sort();
+    }
+
+    // Binary search for the first term >= prefix, then scan while it matches
+    let low = 0;
+    let high = this.sortedTerms.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.sortedTerms[mid] < queryTerm.text) low = mid + 1;
+      else high = mid;
+    }
+
+    const terms: string[] = [];
+    for (let i = low; i < this.sortedTerms.length && this.sortedTerms[i].startsWith(queryTerm.text); i++) {
+      terms.push(this.sortedTerms[i]);
+    }
+    return terms;
+  }
+}
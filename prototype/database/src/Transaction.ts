@@ -0,0 +1,309 @@
+import { AIQQuery, AIQWriteResult, GraphEdge, GraphNode } from '@aiws/shared';
+import { matchesConditions } from './Conditions';
+import { compareRows } from './Cursor';
+import { EdgePolicy } from './GraphMemDB';
+
+/**
+ * What a transaction needs from the database it runs against
+ */
+export interface TransactionStore {
+  /** Committed node by id */
+  getNode(id: string): GraphNode | undefined;
+  /** Ids of the committed nodes of a type */
+  nodeIds(type: string): string[];
+  /** Ids of committed nodes with an edge to the node */
+  inboundSources(id: string): string[];
+  nextNodeId(): number;
+  /** Throws SchemaError if the node does not match its type's schema */
+  validate(node: GraphNode, typeOf: (id: string | number) => string | undefined): void;
+  /** Apply the staged writes atomically; throws TransactionConflictError if another commit got there first */
+  commit(transaction: Transaction, writes: Map<string, GraphNode | null>): void;
+  /** Forget a rolled back transaction */
+  release(transaction: Transaction): void;
+}
+
+/**
+ * Transaction Conflict Error - Another commit wrote nodes this transaction
+ * also wrote after it began; the transaction is rolled back and may be retried
+ */
+export class TransactionConflictError extends Error {
+  readonly ids: string[];
+
+  constructor(ids: string[]) {
+    super(`Transaction conflict: ${ids.join(', ')} changed since the transaction began`);
+    this.name = 'TransactionConflictError';
+    this.ids = ids;
+  }
+
+  toJSON(): any {
+    return {
+      message: this.message,
+      ids: this.ids
+    };
+  }
+}
+
+/** FETCH clauses a transaction cannot evaluate against its snapshot */
+const UNSUPPORTED_READS: (keyof AIQQuery)[] = [
+  'compute',
+  'groupBy',
+  'similar',
+  'search',
+  'traversal',
+  'asOf',
+  'after',
+  'projection'
+];
+
+/**
+ * Transaction - Snapshot of the graph plus staged writes
+ *
+ * Reads see the graph as it was at begin, plus the transaction's own
+ * writes: when another commit changes a node, the database hands every
+ * open transaction the node's previous state first. Writes are staged and
+ * applied together at commit, which fails if another commit wrote one of
+ * the same nodes in the meantime (first committer wins). Nothing is
+ * visible to other readers before commit; rollback drops the staged writes.
+ */
+export class Transaction {
+  readonly id: number;
+  /** Commit version of the database when the transaction began */
+  readonly startVersion: number;
+  private store: TransactionStore;
+  private status: 'active' | 'committed' | 'rolledBack' = 'active';
+  /** Staged node states by id (null: removed), in write order */
+  private writes: Map<string, GraphNode | null> = new Map();
+  /** States at begin of nodes committed since (null: did not exist) */
+  private snapshot: Map<string, GraphNode | null> = new Map();
+
+  constructor(id: number, startVersion: number, store: TransactionStore) {
+    this.id = id;
+    this.startVersion = startVersion;
+    this.store = store;
+  }
+
+  isActive(): boolean {
+    return this.status === 'active';
+  }
+
+  getStatus(): 'active' | 'committed' | 'rolledBack' {
+    return this.status;
+  }
+
+  getNode(id: string | number): GraphNode | undefined {
+    const key = String(id);
+    if (this.writes.has(key)) return this.writes.get(key) || undefined;
+    if (this.snapshot.has(key)) return this.snapshot.get(key) || undefined;
+    return this.store.getNode(key);
+  }
+
+  getNodesByType(type: string): GraphNode[] {
+    const ids = new Set([...this.store.nodeIds(type), ...this.snapshot.keys(), ...this.writes.keys()]);
+    const nodes: GraphNode[] = [];
+    for (const id of ids) {
+      const node = this.getNode(id);
+      if (node?.type === type) nodes.push(node);
+    }
+    return nodes;
+  }
+
+  addNode(node: GraphNode): void {
+    this.stage(node);
+  }
+
+  updateNode(id: string | number, changes: Partial<Omit<GraphNode, 'id'>>): GraphNode {
+    const existing = this.requireNode(id);
+    const updated: GraphNode = { ...existing, ...changes, id: existing.id };
+    this.stage(updated);
+    return updated;
+  }
+
+  /**
+   * Merge properties into a node; keys set to undefined are removed
+   */
+  patchProperties(id: string | number, patch: Record<string, any>): GraphNode {
+    const properties = { ...this.requireNode(id).properties };
+
+    for (const [key, value] of Object.entries(patch)) {
+      if (value === undefined) {
+        delete properties[key];
+      } else {
+        properties[key] = value;
+      }
+    }
+
+    return this.updateNode(id, { properties });
+  }
+
+  removeNode(id: string | number, policy: EdgePolicy = 'cascade'): boolean {
+    this.assertActive();
+    const nodeId = String(id);
+    if (!this.getNode(nodeId)) return false;
+
+    this.writes.set(nodeId, null);
+
+    if (policy === 'cascade') {
+      const candidates = new Set([...this.store.inboundSources(nodeId), ...this.snapshot.keys(), ...this.writes.keys()]);
+      for (const sourceId of candidates) {
+        const source = this.getNode(sourceId);
+        if (!source?.edges.some(edge => String(edge.target) === nodeId)) continue;
+        this.writes.set(sourceId, { ...source, edges: source.edges.filter(edge => String(edge.target) !== nodeId) });
+      }
+    }
+    return true;
+  }
+
+  addEdge(sourceId: string | number, edge: GraphEdge): GraphNode {
+    const existing = this.requireNode(sourceId);
+    return this.updateNode(sourceId, { edges: [...existing.edges, edge] });
+  }
+
+  removeEdge(sourceId: string | number, relationship: string, target: string | number): boolean {
+    const existing = this.requireNode(sourceId);
+    const edges = existing.edges.filter(
+      edge => !(edge.relationship === relationship && String(edge.target) === String(target))
+    );
+    if (edges.length === existing.edges.length) return false;
+
+    this.updateNode(sourceId, { edges });
+    return true;
+  }
+
+  /**
+   * Run INSERT / UPDATE / DELETE or a FETCH (WHERE, FILTER, SORT BY and
+   * LIMIT only) against the transaction's view of the graph
+   */
+  executeQuery(query: AIQQuery): any[] {
+    switch (query.operation) {
+      case 'FETCH': {
+        const unsupported = UNSUPPORTED_READS.filter(key => query[key] !== undefined);
+        if (unsupported.length > 0) {
+          throw new Error(`FETCH with ${unsupported.join(', ')} is not supported inside a transaction`);
+        }
+        return this.select(query);
+      }
+      case 'INSERT':
+      case 'UPDATE':
+      case 'DELETE':
+        return [this.executeWrite(query)];
+      default:
+        throw new Error(`${query.operation} is not supported inside a transaction`);
+    }
+  }
+
+  /**
+   * Apply the staged writes; on a conflict or a failed write nothing is
+   * applied and the transaction is rolled back
+   */
+  commit(): void {
+    this.assertActive();
+    try {
+      this.store.commit(this, this.writes);
+      this.status = 'committed';
+    } catch (error) {
+      this.status = 'rolledBack';
+      throw error;
+    }
+  }
+
+  rollback(): void {
+    if (this.status !== 'active') return;
+
+    this.status = 'rolledBack';
+    this.writes.clear();
+    this.store.release(this);
+  }
+
+  /**
+   * Keep the state a node had at begin before another commit changes it
+   */
+  capture(id: string, previous: GraphNode | undefined): void {
+    if (!this.snapshot.has(id)) this.snapshot.set(id, previous || null);
+  }
+
+  private executeWrite(query: AIQQuery): AIQWriteResult {
+    if (query.operation === 'INSERT') {
+      if (!query.values) {
+        throw new Error('INSERT requires a VALUES block');
+      }
+
+      const { id, ...properties } = query.values;
+      const nodeId = id ?? this.nextNodeId();
+      if (this.getNode(nodeId)) {
+        throw new Error(`Node already exists: ${nodeId}`);
+      }
+
+      this.addNode({ id: nodeId, type: query.target, properties, edges: query.link || [] });
+      return { operation: 'INSERT', affected: 1, ids: [nodeId] };
+    }
+
+    const ids = this.select(query).map(node => node.id);
+
+    if (query.operation === 'DELETE') {
+      for (const id of ids) {
+        this.removeNode(id);
+      }
+      return { operation: 'DELETE', affected: ids.length, ids };
+    }
+
+    if (!query.set && !query.link && !query.unlink) {
+      throw new Error('UPDATE requires a SET, LINK or UNLINK block');
+    }
+
+    for (const id of ids) {
+      if (query.set) {
+        this.patchProperties(id, query.set);
+      }
+      for (const edge of query.link || []) {
+        this.addEdge(id, edge);
+      }
+      for (const edge of query.unlink || []) {
+        this.removeEdge(id, edge.relationship, edge.target);
+      }
+    }
+    return { operation: 'UPDATE', affected: ids.length, ids };
+  }
+
+  private select(query: AIQQuery): GraphNode[] {
+    let nodes = this.getNodesByType(query.target);
+    if (query.where) nodes = nodes.filter(node => matchesConditions(node, query.where!));
+    if (query.filter) nodes = nodes.filter(node => matchesConditions(node, query.filter!));
+
+    if (query.sort) nodes.sort((a, b) => compareRows(a, b, query.sort!));
+
+    return query.limit !== undefined ? nodes.slice(0, query.limit) : nodes;
+  }
+
+  /**
+   * Next numeric id, counting nodes staged by this transaction
+   */
+  private nextNodeId(): number {
+    let max = this.store.nextNodeId() - 1;
+    for (const node of this.writes.values()) {
+      if (node && typeof node.id === 'number' && node.id > max) {
+        max = node.id;
+      }
+    }
+    return max + 1;
+  }
+
+  private stage(node: GraphNode): void {
+    this.assertActive();
+    this.store.validate(node, id => this.getNode(id)?.type);
+    this.writes.set(String(node.id), node);
+  }
+
+  private requireNode(id: string | number): GraphNode {
+    const node = this.getNode(id);
+    if (!node) {
+      throw new Error(`Node not found: ${id}`);
+    }
+    return node;
+  }
+
+  private assertActive(): void {
+    if (this.status !== 'active') {
+      throw new Error(`Transaction ${this.id} is ${this.status === 'committed' ? 'committed' : 'rolled back'}`);
+    }
+  }
+}
@@ -0,0 +1,352 @@
+export type VectorMetric = 'cosine' | 'dot' | 'l2';
+
+export interface VectorIndexOptions {
+  /** Distance metric (default cosine) */
+  metric?: VectorMetric;
+  /** Max neighbours per node on upper layers; layer 0 keeps 2 * m (default 16) */
+  m?: number;
+  /** Candidate list size while inserting (default 200) */
+  efConstruction?: number;
+  /** Candidate list size while searching (default 50) */
+  efSearch?: number;
+  /** Seed for level generation, so index layout is reproducible (default 42) */
+  seed?: number;
+}
+
+export interface VectorMatch {
+  id: string;
+  distance: number;
+}
+
+interface HNSWNode {
+  id: string;
+  vector: number[];
+  level: number;
+  neighbours: Set<string>[];
+}
+
+/**
+ * Distance for a metric (smaller is closer)
+ */
+export function vectorDistance(metric: VectorMetric, a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  let squared = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+    const diff = a[i] - b[i];
+    squared += diff * diff;
+  }
+
+  switch (metric) {
+    case 'dot':
+      return -dot;
+    case 'l2':
+      return Math.sqrt(squared);
+    case 'cosine':
+    default:
+      if (normA === 0 || normB === 0) return 1;
+      return 1 - dot / (Math.sqrt(normA) * Math.sqrt(normB));
+  }
+}
+
+/**
+ * Similarity score for a distance (larger is closer). Cosine maps back to
+ * cosine similarity, dot to the raw dot product and L2 to 1 / (1 + d).
+ */
+export function distanceToSimilarity(metric: VectorMetric, distance: number): number {
+  switch (metric) {
+    case 'dot':
+      return -distance;
+    case 'l2':
+      return 1 / (1 + distance);
+    case 'cosine':
+    default:
+      return 1 - distance;
+  }
+}
+
+/**
+ * HNSW Index - Hierarchical Navigable Small World graph for approximate
+ * nearest-neighbour search (Malkov & Yashunin)
+ *
+ * Supports upserts and hard deletes; neighbours that lose a link to a
+ * removed node are reconnected from its neighbour list.
+ */
+export class HNSWIndex {
+  private nodes: Map<string, HNSWNode>;
+  private entryPoint: string | null = null;
+  private maxLevel = -1;
+  private dimensions: number | null = null;
+  private metric: VectorMetric;
+  private m: number;
+  private efConstruction: number;
+  private efSearch: number;
+  private levelMultiplier: number;
+  private random: () => number;
+
+  constructor(options: VectorIndexOptions = {}) {
+    this.nodes = new Map();
+    this.metric = options.metric || 'cosine';
+    this.m = options.m ?? 16;
+    this.efConstruction = options.efConstruction ?? 200;
+    this.efSearch = options.efSearch ?? 50;
+    this.levelMultiplier = 1 / Math.log(this.m);
+    this.random = seededRandom(options.seed ?? 42);
+  }
+
+  /**
+   * Insert or replace a vector
+   */
+  add(id: string, vector: number[]): void {
+    if (!this.accepts(id, vector)) {
+      throw new Error(
+        `Embedding dimension mismatch for ${id}: expected ${this.dimensions}, got ${vector.length}`
+      );
+    }
+
+    if (this.nodes.has(id)) {
+      this.remove(id);
+    }
+    if (this.dimensions === null) {
+      this.dimensions = vector.length;
+    }
+
+    const level = Math.floor(-Math.log(1 - this.random()) * this.levelMultiplier);
+    const node: HNSWNode = {
+      id,
+      vector,
+      level,
+      neighbours: Array.from({ length: level + 1 }, () => new Set<string>())
+    };
+    this.nodes.set(id, node);
+
+    if (this.entryPoint === null) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+      return;
+    }
+
+    // Greedy descent through the layers above the node's level
+    let current = this.entryPoint;
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      current = this.searchLayer(vector, [current], 1, layer)[0].id;
+    }
+
+    // Connect on every layer the node lives in
+    let entryPoints = [current];
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(vector, entryPoints, this.efConstruction, layer);
+      const selected = candidates.slice(0, this.m).map(c => c.id);
+
+      for (const neighbourId of selected) {
+        node.neighbours[layer].add(neighbourId);
+        const neighbour = this.nodes.get(neighbourId)!;
+        neighbour.neighbours[layer].add(id);
+        this.prune(neighbour, layer);
+      }
+
+      entryPoints = candidates.map(c => c.id);
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = id;
+    }
+  }
+
+  /**
+   * Remove a vector and repair the links around it
+   */
+  remove(id: string): boolean {
+    const node = this.nodes.get(id);
+    if (!node) return false;
+
+    this.nodes.delete(id);
+
+    for (let layer = 0; layer <= node.level; layer++) {
+      const orphans = Array.from(node.neighbours[layer]);
+
+      for (const neighbourId of orphans) {
+        if (!this.livesOn(neighbourId, layer)) continue;
+        const neighbour = this.nodes.get(neighbourId)!;
+        neighbour.neighbours[layer].delete(id);
+
+        // Reconnect through the removed node's other neighbours
+        for (const candidateId of orphans) {
+          if (candidateId !== neighbourId && this.livesOn(candidateId, layer)) {
+            neighbour.neighbours[layer].add(candidateId);
+          }
+        }
+        this.prune(neighbour, layer);
+      }
+    }
+
+    if (this.entryPoint === id) {
+      this.entryPoint = null;
+      this.maxLevel = -1;
+      for (const candidate of this.nodes.values()) {
+        if (candidate.level > this.maxLevel) {
+          this.maxLevel = candidate.level;
+          this.entryPoint = candidate.id;
+        }
+      }
+    }
+
+    if (this.nodes.size === 0) {
+      this.dimensions = null;
+    }
+
+    return true;
+  }
+
+  /**
+   * k nearest neighbours of a query vector, closest first
+   */
+  search(query: number[], k: number, ef: number = this.efSearch): VectorMatch[] {
+    if (this.entryPoint === null || query.length !== this.dimensions) return [];
+
+    let current = this.entryPoint;
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      current = this.searchLayer(query, [current], 1, layer)[0].id;
+    }
+
+    return this.searchLayer(query, [current], Math.max(ef, k), 0).slice(0, k);
+  }
+
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  /**
+   * Whether add(id, vector) would be accepted (dimensions match, or the
+   * vector replaces the only entry)
+   */
+  accepts(id: string, vector: number[]): boolean {
+    return (
+      this.dimensions === null ||
+      vector.length === this.dimensions ||
+      (this.nodes.size === 1 && this.nodes.has(id))
+    );
+  }
+
+  size(): number {
+    return this.nodes.size;
+  }
+
+  getDimensions(): number | null {
+    return this.dimensions;
+  }
+
+  getMetric(): VectorMetric {
+    return this.metric;
+  }
+
+  getStats(): any {
+    return {
+      size: this.nodes.size,
+      dimensions: this.dimensions,
+      metric: this.metric,
+      levels: this.maxLevel + 1
+    };
+  }
+
+  /**
+   * Best-first search on one layer, returns up to ef candidates sorted by distance
+   */
+  private searchLayer(query: number[], entryPoints: string[], ef: number, layer: number): VectorMatch[] {
+    const visited = new Set<string>(entryPoints);
+    const candidates: VectorMatch[] = [];
+    const results: VectorMatch[] = [];
+
+    for (const id of entryPoints) {
+      const node = this.nodes.get(id);
+      if (!node) continue;
+      const match = { id, distance: vectorDistance(this.metric, query, node.vector) };
+      candidates.push(match);
+      results.push(match);
+    }
+    candidates.sort((a, b) => a.distance - b.distance);
+    results.sort((a, b) => a.distance - b.distance);
+
+    while (candidates.length > 0) {
+      const closest = candidates.shift()!;
+      const furthest = results[results.length - 1];
+      if (results.length >= ef && closest.distance > furthest.distance) break;
+
+      const node = this.nodes.get(closest.id);
+      for (const neighbourId of node?.neighbours[layer] || []) {
+        if (visited.has(neighbourId)) continue;
+        visited.add(neighbourId);
+
+        if (!this.livesOn(neighbourId, layer)) continue;
+        const neighbour = this.nodes.get(neighbourId)!;
+
+        const distance = vectorDistance(this.metric, query, neighbour.vector);
+        if (results.length < ef || distance < results[results.length - 1].distance) {
+          const match = { id: neighbourId, distance };
+          insertSorted(candidates, match);
+          insertSorted(results, match);
+          if (results.length > ef) results.pop();
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Links are one-way after pruning, so a link can outlive its target or
+   * point at a re-inserted id that no longer reaches this layer
+   */
+  private livesOn(id: string, layer: number): boolean {
+    const node = this.nodes.get(id);
+    return node !== undefined && node.level >= layer;
+  }
+
+  /**
+   * Keep only the closest links when a node exceeds its layer's capacity
+   */
+  private prune(node: HNSWNode, layer: number): void {
+    const capacity = layer === 0 ? this.m * 2 : this.m;
+    const links = node.neighbours[layer];
+    if (links.size <= capacity) return;
+
+    const kept = Array.from(links)
+      .filter(id => this.livesOn(id, layer))
+      .map(id => ({ id, distance: vectorDistance(this.metric, node.vector, this.nodes.get(id)!.vector) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, capacity);
+
+    node.neighbours[layer] = new Set(kept.map(k => k.id));
+  }
+}
+
+function insertSorted(list: VectorMatch[], match: VectorMatch): void {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (list[mid].distance < match.distance) low = mid + 1;
+    else high = mid;
+  }
+  list.splice(low, 0, match);
+}
+
+/**
+ * mulberry32 PRNG
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,149 @@
+import { AIQCompiler } from '../AIQCompiler';
+import { AIQSyntaxError } from '../AIQLexer';
+
+const compiler = new AIQCompiler();
+
+/** The AIQSyntaxError a query fails with */
+function syntaxError(source: string): AIQSyntaxError {
+  try {
+    compiler.parse(source);
+  } catch (error) {
+    expect(error).toBeInstanceOf(AIQSyntaxError);
+    return error as AIQSyntaxError;
+  }
+  throw new Error(`Expected a syntax error in: ${source}`);
+}
+
+describe('AIQ parser', () => {
+  it('reads blocks and one clause per line to the same query', () => {
+    const block = compiler.parse(`@QUERY top_products
+@INTENT "Expensive products"
+FETCH product {
+  WHERE {
+    category: electronics
+    price > 100
+  }
+  SORT BY price DESC
+  LIMIT 5
+}`);
+    const lines = compiler.parse(
+      'FETCH product\nWHERE { category: electronics AND price > 100 }\nSORT BY price DESC\nLIMIT 5'
+    );
+
+    expect(block).toEqual({
+      name: 'top_products',
+      intent: 'Expensive products',
+      operation: 'FETCH',
+      target: 'product',
+      where: { category: 'electronics', price: { $gt: 100 } },
+      sort: { field: 'price', order: 'DESC' },
+      limit: 5
+    });
+    expect(lines).toEqual({ ...block, name: '', intent: '' });
+  });
+
+  it('groups conditions with parentheses, AND and OR', () => {
+    const query = compiler.parse(`FETCH product {
+  WHERE {
+    (price > 5 OR category: books) AND status: published
+    status IN [published, draft]
+  }
+}`);
+    // A second condition on the same key is kept under $and
+    expect(query.where).toEqual({
+      $or: [{ price: { $gt: 5 } }, { category: 'books' }],
+      status: 'published',
+      $and: [{ status: { $in: ['published', 'draft'] } }]
+    });
+  });
+
+  it('reads a traversal path with one direction', () => {
+    const query = compiler.parse('GRAPH_TRAVERSE user {\n  START product:201\n  TRAVERSE <- CONTAINS <- HAS_ORDER\n}');
+    expect(query.traversal).toEqual({
+      start: 'product:201',
+      relationships: ['CONTAINS', 'HAS_ORDER'],
+      direction: 'in',
+      maxDepth: 2
+    });
+  });
+
+  it('skips line and block comments', () => {
+    expect(compiler.parse('// all users\nFETCH user /* capped */ {\n  LIMIT 2 // two\n}').limit).toBe(2);
+  });
+});
+
+describe('AIQ syntax errors', () => {
+  it.each([
+    ['a misspelt operation', 'FECTH product', 1, 1, '"FECTH"'],
+    ['a misspelt clause', 'FETCH product {\n  LIMT 5\n}', 2, 3, '"LIMT"'],
+    ['a non-integer limit', 'FETCH product\nLIMIT ten', 2, 7, '"ten"'],
+    ['an unclosed block', 'FETCH product {\n  WHERE {\n    price > 100\n', 4, 1, 'end of query'],
+    ['extra words after a clause', 'FETCH product {\n  SORT BY price SIDEWAYS\n}', 2, 17, '"SIDEWAYS"'],
+    ['mixed traversal directions', 'GRAPH_TRAVERSE user {\n  TRAVERSE <- CONTAINS -> HAS_ORDER\n}', 2, 24, '"->"'],
+    ['a word after a quoted string', 'INSERT product {\n  VALUES {\n    title: "Desk" big\n  }\n}', 3, 19, '"big"']
+  ])('points at %s', (_, source, line, column, found) => {
+    const error = syntaxError(source);
+    expect({ line: error.line, column: error.column, found: error.found }).toEqual({ line, column, found });
+    expect(error.message).toContain(`(line ${line}, column ${column})`);
+  });
+
+  it('points at an unterminated string from the lexer', () => {
+    const error = syntaxError('FETCH product {\n  WHERE {\n    title: "Desk\n  }\n}');
+    expect(error.message).toMatch(/^Unterminated string/);
+    expect([error.line, error.column]).toEqual([3, 12]);
+  });
+
+  it('rejects a bare list that holds a quoted string', () => {
+    const error = syntaxError('INSERT product\nVALUES { title: "Desk", price: 300 }');
+    expect([error.line, error.column]).toEqual([2, 25]);
+    expect(error.expected).toEqual(['end of line']);
+  });
+});
+
+describe('AIQ comparisons', () => {
+  it('rejects a second condition after a bound on the same line', () => {
+    const error = syntaxError(`FETCH order {
+  FILTER {
+    total >= 5, total <= 10
+  }
+}`);
+    expect(error.line).toBe(3);
+    expect(error.column).toBe(15);
+    expect(error.expected).toEqual(['end of line']);
+    expect(error.message).toContain('BETWEEN');
+  });
+
+  it('rejects words after the value of a comparison', () => {
+    for (const operator of ['>', '>=', '<', '<=', '!=']) {
+      const error = syntaxError(`FETCH order\nWHERE { total ${operator} 5 x }`);
+      expect(error.line).toBe(2);
+      expect(error.found).toBe('"x"');
+    }
+  });
+
+  it('reads one bound per line, or a range with BETWEEN', () => {
+    const expected = { total: { $gte: 5, $lte: 10 } };
+    expect(compiler.parse('FETCH order {\n  FILTER {\n    total >= 5\n    total <= 10\n  }\n}').filter).toEqual(
+      expected
+    );
+    expect(compiler.parse('FETCH order\nFILTER { total >= 5 AND total <= 10 }').filter).toEqual(expected);
+    expect(compiler.parse('FETCH order\nFILTER { total BETWEEN 5 AND 10 }').filter).toEqual(expected);
+  });
+
+  it('takes single-word values that span several tokens', () => {
+    const query = compiler.parse(`FETCH user {
+  WHERE {
+    email != alice@example.com
+    created_at > 2024-01-01T00:00:00Z
+    score < -5
+    name != "Alice Smith"
+  }
+}`);
+    expect(query.where).toEqual({
+      email: { $ne: 'alice@example.com' },
+      created_at: { $gt: new Date('2024-01-01T00:00:00Z') },
+      score: { $lt: -5 },
+      name: { $ne: 'Alice Smith' }
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { AIQQuery, GraphNode } from '@aiws/shared';
+import { AIQCompiler } from '../AIQCompiler';
+import { encodeCursor } from '../Cursor';
+import { GraphMemDB } from '../GraphMemDB';
+
+const compiler = new AIQCompiler();
+
+const products = (): GraphNode[] =>
+  Array.from({ length: 23 }, (_, i) => ({
+    id: `p${String(i + 1).padStart(2, '0')}`,
+    type: 'product',
+    properties: {
+      // Few distinct values, so pages split runs of ties
+      price: i % 4,
+      category: i % 2 ? 'lamps' : 'desks',
+      created_at: new Date(Date.UTC(2024, 0, 1 + (i % 5)))
+    },
+    edges: []
+  }));
+
+function seeded(options = {}): GraphMemDB {
+  const db = new GraphMemDB(options);
+  products().forEach(node => db.addNode(node));
+  return db;
+}
+
+/** Ids of every page, following the cursors by hand */
+function pageIds(db: GraphMemDB, query: AIQQuery): string[][] {
+  const pages: string[][] = [];
+  let after: string | undefined;
+  do {
+    const page = db.executePage({ ...query, after });
+    pages.push(page.rows.map(node => node.id));
+    after = page.nextCursor ?? undefined;
+  } while (after);
+  return pages;
+}
+
+describe('Cursor paging', () => {
+  it.each([
+    ['id order', 'FETCH product\nLIMIT 5'],
+    ['ties in a sort', 'FETCH product\nSORT BY price\nLIMIT 6'],
+    ['a descending sort', 'FETCH product\nSORT BY price DESC\nLIMIT 6'],
+    ['a WHERE', 'FETCH product\nWHERE { category: lamps }\nSORT BY price\nLIMIT 4'],
+    ['dates', 'FETCH product\nSORT BY created_at DESC\nLIMIT 4']
+  ])('visits every row once through %s', (_, source) => {
+    const query = compiler.parse(source);
+    const { limit, ...all } = query;
+
+    for (const db of [seeded(), seeded({ indexes: [{ type: 'product', fields: ['price'] }] })]) {
+      const pages = pageIds(db, query);
+      const expected = db.executeQuery(query.sort ? all : { ...all, sort: { field: 'id', order: 'ASC' } });
+
+      expect(pages.slice(0, -1).every(page => page.length === limit)).toBe(true);
+      expect(pages.flat()).toEqual(expected.map(node => node.id));
+    }
+  });
+
+  it('continues from the last row seen when rows change between pages', () => {
+    const db = seeded();
+    const query = compiler.parse('FETCH product\nSORT BY price\nLIMIT 5');
+    const first = db.executePage(query);
+    expect(first.rows.map(node => node.id)).toEqual(['p01', 'p05', 'p09', 'p13', 'p17']);
+
+    // A row before the cursor, and the next row moved behind it
+    db.addNode({ id: 'p00', type: 'product', properties: { price: 0 }, edges: [] });
+    db.patchProperties('p21', { price: 3 });
+    const second = db.executePage({ ...query, after: first.nextCursor! });
+    expect(second.rows.map(node => node.id)).toEqual(['p02', 'p06', 'p10', 'p14', 'p18']);
+  });
+
+  it('reads pages lazily and stops at the LIMIT', () => {
+    const db = seeded();
+    const query = compiler.parse('FETCH product\nSORT BY price\nLIMIT 11');
+    const pages = Array.from(db.executePages(query, 4), page => page.rows.length);
+    expect(pages).toEqual([4, 4, 3]);
+
+    const unlimited = db.executePages(compiler.parse('FETCH product'), 10);
+    expect(unlimited.next().value!.rows).toHaveLength(10);
+    expect(Array.from(unlimited, page => page.rows.length)).toEqual([10, 3]);
+  });
+
+  it('rejects cursors that are not ours or for another sort', () => {
+    const db = seeded();
+    const bySort = (sort: string) => compiler.parse(`FETCH product\nSORT BY ${sort}\nLIMIT 5`);
+
+    expect(() => db.executePage({ ...bySort('price'), after: 'nonsense!' })).toThrow('Invalid cursor: nonsense!');
+    const forged = Buffer.from(JSON.stringify({ f: 'price', o: 'UP', id: 1 })).toString('base64url');
+    expect(() => db.executePage({ ...bySort('price'), after: forged })).toThrow(`Invalid cursor: ${forged}`);
+
+    const cursor = db.executePage(bySort('price')).nextCursor!;
+    expect(() => db.executePage({ ...bySort('price DESC'), after: cursor })).toThrow(
+      'Cursor is for SORT BY price ASC, the query sorts by price DESC'
+    );
+    expect(() => db.executePage({ ...compiler.parse('FETCH product\nLIMIT 5'), after: cursor })).toThrow(
+      'Cursor is for SORT BY price ASC, the query sorts by id ASC'
+    );
+  });
+
+  it('does not page grouped results', () => {
+    const db = seeded();
+    const grouped = compiler.parse('FETCH product\nCOMPUTE { n: COUNT() }\nGROUP BY category');
+    expect(db.executePage(grouped)).toEqual({ rows: db.executeQuery(grouped), nextCursor: null });
+
+    const after = encodeCursor({ field: 'id', order: 'ASC' }, { id: 'p05' });
+    expect(() => db.executePage({ ...grouped, after })).toThrow('GROUP BY results cannot be paged');
+  });
+});
@@ -0,0 +1,94 @@
+import { GraphNode } from '@aiws/shared';
+import { AIQCompiler } from '../AIQCompiler';
+import { GraphMemDB } from '../GraphMemDB';
+
+const compiler = new AIQCompiler();
+
+const product = (id: number, price: number): GraphNode => ({ id, type: 'product', properties: { price }, edges: [] });
+
+describe('Node history', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  /** A database with writes at t=1000, 2000 and 3000 */
+  function writtenOverTime(options = {}): GraphMemDB {
+    jest.useFakeTimers({ now: 1000 });
+    const db = new GraphMemDB(options);
+    db.addNode(product(201, 300));
+    db.addNode(product(202, 40));
+
+    jest.setSystemTime(2000);
+    db.withOrigin({ agent: 'pricing' }, () => db.patchProperties(201, { price: 320 }));
+    db.removeNode(202);
+
+    jest.setSystemTime(3000);
+    db.patchProperties(201, { price: 350 });
+    db.addNode(product(203, 90));
+    return db;
+  }
+
+  it('keeps every write of a node, oldest first', () => {
+    const db = writtenOverTime();
+    const history = db.getHistory(201);
+
+    expect(history.map(version => [version.op, version.timestamp, version.node!.properties.price])).toEqual([
+      ['insert', 1000, 300],
+      ['update', 2000, 320],
+      ['update', 3000, 350]
+    ]);
+    expect(history[1]).toMatchObject({ changed: ['price'], origin: { agent: 'pricing' } });
+    expect(history[2].version).toBe(db.getNodeVersion(201));
+    expect(db.getHistory(202).map(version => [version.op, version.node])).toEqual([
+      ['insert', product(202, 40)],
+      ['delete', null]
+    ]);
+  });
+
+  it('reads nodes as they were at a time', () => {
+    const db = writtenOverTime();
+
+    expect(db.getNodeAsOf(201, 999)).toBeUndefined();
+    expect(db.getNodeAsOf(201, 1000)!.properties.price).toBe(300);
+    expect(db.getNodeAsOf(201, new Date(2500))!.properties.price).toBe(320);
+    expect(db.getNodeAsOf(202, 1999)).toEqual(product(202, 40));
+    expect(db.getNodeAsOf(202, 2000)).toBeUndefined();
+    expect(db.getNodeAsOf(404, 3000)).toBeUndefined();
+  });
+
+  it('answers AS OF queries from the history', () => {
+    const db = writtenOverTime();
+    const prices = (asOf: number) =>
+      db
+        .executeQuery(compiler.parse(`FETCH product\nSORT BY price\nAS OF ${asOf}`))
+        .map(node => [node.id, node.properties.price]);
+
+    expect(prices(1500)).toEqual([
+      [202, 40],
+      [201, 300]
+    ]);
+    expect(prices(2500)).toEqual([[201, 320]]);
+    expect(prices(3000)).toEqual([
+      [203, 90],
+      [201, 350]
+    ]);
+    expect(prices(500)).toEqual([]);
+  });
+
+  it('keeps at most historyLimit versions per node', () => {
+    const db = writtenOverTime({ historyLimit: 2 });
+
+    expect(db.getHistory(201).map(version => version.node!.properties.price)).toEqual([320, 350]);
+    // Times before the oldest kept version are no longer known
+    expect(db.getNodeAsOf(201, 1500)).toBeUndefined();
+    expect(db.getNodeAsOf(201, 2500)!.properties.price).toBe(320);
+  });
+
+  it('cannot answer AS OF with history off', () => {
+    const db = writtenOverTime({ historyLimit: 0 });
+
+    expect(db.getHistory(201)).toEqual([]);
+    expect(() => db.getNodeAsOf(201, 2500)).toThrow('AS OF needs node history, which is off (historyLimit: 0)');
+    expect(() => db.executeQuery(compiler.parse('FETCH product\nAS OF 2500'))).toThrow(/historyLimit: 0/);
+  });
+});
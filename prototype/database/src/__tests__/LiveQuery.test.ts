@@ -0,0 +1,127 @@
+import { ChangeEvent, GraphNode, LiveQueryDiff } from '@aiws/shared';
+import { AIQCompiler } from '../AIQCompiler';
+import { GraphMemDB } from '../GraphMemDB';
+
+const compiler = new AIQCompiler();
+
+const product = (id: number, price: number, category = 'desks'): GraphNode => ({
+  id,
+  type: 'product',
+  properties: { price, category },
+  edges: []
+});
+
+/** Let queued change batches go out */
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('Live queries', () => {
+  let db: GraphMemDB;
+  let diffs: LiveQueryDiff[];
+  const subscribe = (source: string) => db.subscribe(compiler.parse(source), diff => diffs.push(diff));
+
+  beforeEach(() => {
+    db = new GraphMemDB();
+    db.addNode(product(201, 300));
+    db.addNode(product(202, 40));
+    db.addNode(product(203, 90, 'lamps'));
+    db.addNode({ id: 1, type: 'user', properties: { name: 'Alice' }, edges: [] });
+    diffs = [];
+  });
+
+  it('start from the current result', () => {
+    const live = subscribe('FETCH product\nWHERE { price > 50 }\nSORT BY price');
+    expect(live.getResult().map(node => node.id)).toEqual([203, 201]);
+  });
+
+  it('report the rows added, updated and removed by a batch of writes', async () => {
+    const live = subscribe('FETCH product\nWHERE { price > 50 }\nSORT BY price');
+
+    db.addNode(product(204, 500));
+    db.patchProperties(201, { category: 'tables' });
+    db.patchProperties(203, { price: 10 });
+    expect(diffs).toEqual([]);
+
+    await settle();
+    expect(diffs).toEqual([
+      {
+        id: live.id,
+        seq: db.getNodeVersion(203),
+        added: [product(204, 500)],
+        updated: [{ ...product(201, 300), properties: { price: 300, category: 'tables' } }],
+        removed: ['203']
+      }
+    ]);
+    expect(live.getResult().map(node => node.id)).toEqual([201, 204]);
+  });
+
+  it('send the full order when rows move', async () => {
+    subscribe('FETCH product\nSORT BY price');
+    db.patchProperties(202, { price: 1000 });
+    await settle();
+
+    expect(diffs).toHaveLength(1);
+    expect(diffs[0].order).toEqual(['203', '201', '202']);
+  });
+
+  it('key grouped rows by their group values', async () => {
+    subscribe('FETCH product\nCOMPUTE { n: COUNT() }\nGROUP BY category');
+    db.removeNode(203);
+    db.patchProperties(202, { price: 45 });
+    await settle();
+
+    expect(diffs).toEqual([expect.objectContaining({ added: [], updated: [], removed: ['["lamps"]'] })]);
+  });
+
+  it('skip writes that leave the result as it was', async () => {
+    subscribe('FETCH product\nWHERE { price > 50 }');
+    db.patchProperties(1, { name: 'Alicia' });
+    db.patchProperties(202, { price: 41 });
+    await settle();
+
+    expect(diffs).toEqual([]);
+  });
+
+  it('stop after unsubscribe', async () => {
+    const live = subscribe('FETCH product');
+    live.unsubscribe();
+    db.addNode(product(204, 120));
+    await settle();
+
+    expect(live.isActive()).toBe(false);
+    expect(diffs).toEqual([]);
+  });
+
+  it('must be reads', () => {
+    expect(() => subscribe('DELETE product\nWHERE { id: 201 }')).toThrow(
+      'DELETE cannot be subscribed to; live queries must be reads'
+    );
+  });
+});
+
+describe('Change feed', () => {
+  it('delivers the committed writes of a tick in one batch', async () => {
+    const db = new GraphMemDB();
+    const batches: ChangeEvent[][] = [];
+    const stop = db.onChange(changes => batches.push(changes));
+
+    db.addNode(product(201, 300));
+    db.patchProperties(201, { price: 310 });
+    db.patchProperties(201, { price: 310 });
+    db.transaction(transaction => transaction.removeNode(201));
+    await settle();
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0].map(change => [change.op, change.id])).toEqual([
+      ['insert', 201],
+      ['update', 201],
+      ['delete', 201]
+    ]);
+    expect(batches[0][1].before!.properties.price).toBe(300);
+    expect(batches[0][2].after).toBeNull();
+
+    stop();
+    db.addNode(product(202, 40));
+    await settle();
+    expect(batches).toHaveLength(1);
+  });
+});
@@ -0,0 +1,112 @@
+import { AIQCompiler } from '../AIQCompiler';
+import { GraphMemDB } from '../GraphMemDB';
+import { QueryCache } from '../QueryCache';
+
+const compiler = new AIQCompiler();
+
+const PUBLISHED = 'FETCH product\nWHERE { status: published }';
+const BY_CATEGORY = 'FETCH product\nCOMPUTE { n: COUNT() }\nGROUP BY category';
+
+function seed(db: GraphMemDB): void {
+  db.addNode({ id: 1, type: 'user', properties: { name: 'Alice' }, edges: [] });
+  db.addNode({ id: 201, type: 'product', properties: { status: 'published', category: 'desks', price: 300 }, edges: [] });
+  db.addNode({ id: 202, type: 'product', properties: { status: 'draft', category: 'lamps', price: 40 }, edges: [] });
+}
+
+describe('Query result cache', () => {
+  let db: GraphMemDB;
+  const run = (source: string) => db.executeQuery(compiler.parse(source));
+  const stats = () => db.getStats().cache;
+
+  beforeEach(() => {
+    db = new GraphMemDB({ cache: { defaultTtl: 1000 } });
+    seed(db);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('answers a repeated read from the cache', () => {
+    run(PUBLISHED);
+    expect(run(PUBLISHED).map(node => node.id)).toEqual([201]);
+    expect(stats()).toMatchObject({ entries: 1, hits: 1, misses: 1 });
+  });
+
+  it('keeps entries a write cannot change', () => {
+    run(PUBLISHED);
+    run(BY_CATEGORY);
+
+    // Another type, then a property the grouped rows do not read
+    db.patchProperties(1, { name: 'Alicia' });
+    run(PUBLISHED);
+    db.patchProperties(202, { price: 45 });
+    run(BY_CATEGORY);
+    expect(stats()).toMatchObject({ hits: 2, invalidations: 1 });
+  });
+
+  it('drops entries that read a written property or type', () => {
+    run(BY_CATEGORY);
+    db.patchProperties(202, { category: 'desks' });
+    expect(stats()).toMatchObject({ entries: 0, invalidations: 1 });
+    expect(run(BY_CATEGORY)).toEqual([{ category: 'desks', n: 2 }]);
+
+    // Whole nodes depend on every property, grouped rows only on theirs
+    run(PUBLISHED);
+    db.patchProperties(201, { price: 320 });
+    expect(stats().entries).toBe(1);
+
+    // Adding a node changes every result over its type
+    db.addNode({ id: 203, type: 'product', properties: { status: 'published', category: 'pens' }, edges: [] });
+    expect(stats().entries).toBe(0);
+    expect(run(PUBLISHED).map(node => node.id)).toEqual([201, 203]);
+  });
+
+  it('expires entries after the default TTL or a CACHE hint', () => {
+    jest.useFakeTimers({ now: 0 });
+    run(PUBLISHED);
+    const hinted = compiler.parse(`${BY_CATEGORY}\nCACHE 50ms`);
+    db.executeQuery(hinted);
+
+    jest.setSystemTime(999);
+    run(PUBLISHED);
+    db.executeQuery(hinted);
+    expect(stats()).toMatchObject({ hits: 1, expirations: 1 });
+
+    jest.setSystemTime(1000);
+    run(PUBLISHED);
+    expect(stats()).toMatchObject({ hits: 1, expirations: 2 });
+  });
+
+  it('does not cache queries with CACHE OFF', () => {
+    const query = compiler.parse(`${PUBLISHED}\nCACHE OFF`);
+    db.executeQuery(query);
+    db.executeQuery(query);
+    expect(stats()).toMatchObject({ entries: 0, hits: 0 });
+  });
+});
+
+describe('QueryCache', () => {
+  it('evicts the least recently used entry past its limit', () => {
+    const cache = new QueryCache({ maxEntries: 2 });
+    const everything = { types: null, properties: null };
+    cache.set('a', 1, 1000, everything);
+    cache.set('b', 2, 1000, everything);
+    cache.get('a');
+    cache.set('c', 3, 1000, everything);
+
+    expect([cache.get('a'), cache.get('b'), cache.get('c')]).toEqual([1, undefined, 3]);
+    expect(cache.getStats().evictions).toBe(1);
+  });
+
+  it('invalidates by type and changed property', () => {
+    const cache = new QueryCache();
+    cache.set('titles', [], 1000, { types: ['product'], properties: ['title'] });
+    cache.set('users', [], 1000, { types: ['user'], properties: null });
+
+    expect(cache.invalidate({ type: 'product', properties: ['price'] })).toBe(0);
+    expect(cache.invalidate({ type: 'user', properties: ['name'] })).toBe(1);
+    expect(cache.invalidate({ type: 'product', properties: null })).toBe(1);
+    expect(cache.size()).toBe(0);
+  });
+});
@@ -0,0 +1,112 @@
+import { GraphNode, NodeSchema } from '@aiws/shared';
+import { AIQCompiler } from '../AIQCompiler';
+import { GraphMemDB } from '../GraphMemDB';
+import { SchemaError } from '../Schema';
+
+const compiler = new AIQCompiler();
+
+const schemas = (): NodeSchema[] => [
+  {
+    type: 'user',
+    properties: {
+      name: { type: 'string', required: true },
+      email: { type: 'string', required: true },
+      status: { type: 'string', enum: ['active', 'inactive'] }
+    },
+    edges: { HAS_ORDER: ['order'] }
+  },
+  {
+    type: 'order',
+    properties: { total: { type: 'number', required: true } },
+    edges: {}
+  },
+  {
+    type: 'product',
+    properties: { title: { type: 'string', required: true }, price: { type: 'number', required: true } }
+  }
+];
+
+const user = (id: number, properties: Record<string, any>): GraphNode => ({ id, type: 'user', properties, edges: [] });
+
+/** The SchemaError a write fails with */
+function schemaError(write: () => unknown): SchemaError {
+  try {
+    write();
+  } catch (error) {
+    expect(error).toBeInstanceOf(SchemaError);
+    return error as SchemaError;
+  }
+  throw new Error('Expected a schema error');
+}
+
+describe('Node schemas', () => {
+  let db: GraphMemDB;
+
+  beforeEach(() => {
+    db = new GraphMemDB({ schemas: schemas() });
+    db.addNode(user(1, { name: 'Alice', email: 'alice@example.com', status: 'active' }));
+    db.addNode({ id: 101, type: 'order', properties: { total: 30 }, edges: [] });
+    db.addNode({ id: 201, type: 'product', properties: { title: 'Desk', price: 300 }, edges: [] });
+  });
+
+  it('accepts nodes that match', () => {
+    db.addNode(user(2, { name: 'Bob', email: 'bob@example.com' }));
+    db.addEdge(1, { relationship: 'HAS_ORDER', target: 101 });
+    expect(db.patchProperties(1, { status: 'inactive' }).properties.status).toBe('inactive');
+  });
+
+  it('lists every problem with a node', () => {
+    const error = schemaError(() => db.addNode(user(3, { name: 'Carol', emial: 'carol@example.com' })));
+    expect(error.errors).toEqual([
+      'user 3: missing required property email',
+      'user 3: unknown property emial (did you mean email?)'
+    ]);
+    expect(error.message).toBe(`Schema validation failed: ${error.errors.join('; ')}`);
+    expect(db.getNode(3)).toBeUndefined();
+  });
+
+  it('rejects values of the wrong type or outside an enum', () => {
+    expect(
+      schemaError(() =>
+        db.addNode({ id: 202, type: 'product', properties: { title: 'Lamp', price: '12' }, edges: [] })
+      ).errors
+    ).toEqual(['product 202: price must be a number, got "12"']);
+    expect(schemaError(() => db.patchProperties(1, { status: 'gone' })).errors).toEqual([
+      'user 1: status must be one of active, inactive, got "gone"'
+    ]);
+    expect(db.getNode(1)!.properties.status).toBe('active');
+  });
+
+  it('rejects relationships the type does not allow', () => {
+    expect(schemaError(() => db.addEdge(1, { relationship: 'CONTAINS', target: 201 })).errors).toEqual([
+      'user 1: relationship CONTAINS is not allowed on user (allowed: HAS_ORDER)'
+    ]);
+    expect(schemaError(() => db.addEdge(1, { relationship: 'HAS_ORDER', target: 201 })).errors).toEqual([
+      'user 1: HAS_ORDER must point at order, 201 is a product'
+    ]);
+    expect(db.getNode(1)!.edges).toEqual([]);
+  });
+
+  it('checks queries against the schemas of the types they read', () => {
+    const problems = (source: string) => db.validateQuery(compiler.parse(source));
+
+    expect(problems('FETCH user {\n  WHERE {\n    emial: "x"\n    status: gone\n  }\n  SORT BY naem\n}')).toEqual([
+      'user: unknown field emial (did you mean email?)',
+      'user: status must be one of active, inactive, got "gone"',
+      'user: unknown field naem (did you mean name?)'
+    ]);
+    expect(problems('FETCH product\nCOMPUTE { s: SUM(title) }')).toEqual([
+      'product: s: SUM(title) needs a number, title is a string'
+    ]);
+    expect(problems('FETCH user\nWHERE { status: active }\nSORT BY name')).toEqual([]);
+  });
+
+  it('refuses a schema the stored nodes do not match', () => {
+    const error = schemaError(() => db.defineSchema({ type: 'order', properties: { total: { type: 'string' } } }));
+    expect(error.errors).toEqual(['order 101: total must be a string, got number 30']);
+    expect(db.getSchemas().find(schema => schema.type === 'order')!.properties.total.type).toBe('number');
+
+    db.defineSchema({ type: 'product', properties: { ...schemas()[2].properties, stock: { type: 'number' } } });
+    db.patchProperties(201, { stock: 4 });
+  });
+});
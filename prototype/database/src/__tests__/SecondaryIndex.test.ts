@@ -0,0 +1,118 @@
+import { GraphNode } from '@aiws/shared';
+import { AIQCompiler } from '../AIQCompiler';
+import { GraphMemDB } from '../GraphMemDB';
+import { PlanNode } from '../QueryPlanner';
+
+const compiler = new AIQCompiler();
+
+const products = (): GraphNode[] =>
+  Array.from({ length: 300 }, (_, i) => ({
+    id: i + 1,
+    type: 'product',
+    properties: {
+      category: ['books', 'games', 'tools'][i % 3],
+      // Spread over 0..100 with repeats, so ranges have ties
+      price: (i * 37) % 101
+    },
+    edges: []
+  }));
+
+/** Operators of a plan, outermost first */
+function operators(node: PlanNode | undefined): string[] {
+  return node ? [node.operator, ...operators('input' in node ? node.input : undefined)] : [];
+}
+
+describe('Secondary indexes', () => {
+  const indexed = new GraphMemDB({
+    indexes: [
+      { type: 'product', fields: ['category', 'price'] },
+      { type: 'product', fields: ['price'] }
+    ]
+  });
+  const plain = new GraphMemDB();
+  products().forEach(node => indexed.addNode(node));
+  products().forEach(node => plain.addNode(node));
+
+  it.each([
+    ['a range', 'FETCH product\nWHERE { price >= 20 AND price < 30 }'],
+    ['BETWEEN', 'FETCH product\nWHERE { price BETWEEN 10 AND 12 }'],
+    ['a prefix and a range', 'FETCH product\nWHERE { category: games AND price > 90 }\nSORT BY price DESC'],
+    ['an ordered scan', 'FETCH product\nSORT BY price\nLIMIT 25'],
+    ['a descending ordered scan', 'FETCH product\nWHERE { price <= 40 }\nSORT BY price DESC\nLIMIT 10'],
+    ['a prefix IN list', 'FETCH product\nWHERE { category IN [books, tools] AND price < 5 }\nSORT BY price']
+  ])('answers %s like a full scan', (_, source) => {
+    const query = compiler.parse(source);
+
+    expect(operators(indexed.plan(query).root)).toEqual(expect.arrayContaining([expect.stringMatching(/^Index/)]));
+    expect(operators(plain.plan(query).root)).not.toEqual(expect.arrayContaining([expect.stringMatching(/^Index/)]));
+
+    const ids = (db: GraphMemDB) => db.executeQuery(query).map(node => node.id);
+    const expected = ids(plain);
+    expect(expected.length).toBeGreaterThan(0);
+    // Unsorted results may come in index order
+    expect(query.sort ? ids(indexed) : ids(indexed).sort()).toEqual(query.sort ? expected : expected.sort());
+  });
+
+  it('follows writes to indexed fields', () => {
+    const db = new GraphMemDB({ indexes: [{ type: 'product', fields: ['price'] }] });
+    products().forEach(node => db.addNode(node));
+    const query = compiler.parse('FETCH product\nWHERE { price > 1000 }');
+
+    db.patchProperties(5, { price: 5000 });
+    db.addNode({ id: 999, type: 'product', properties: { price: 2000 }, edges: [] });
+    expect(db.executeQuery(query).map(node => node.id).sort()).toEqual([5, 999]);
+
+    db.removeNode(999);
+    db.patchProperties(5, { price: 1 });
+    expect(db.executeQuery(query)).toEqual([]);
+  });
+
+  it('drops back to a full scan when the index is dropped', () => {
+    const db = new GraphMemDB({ indexes: [{ type: 'product', fields: ['price'] }] });
+    products().forEach(node => db.addNode(node));
+    const query = compiler.parse('FETCH product\nWHERE { price < 10 }');
+    expect(operators(db.plan(query).root)).toContain('IndexScan');
+
+    expect(db.dropIndex('product_price')).toBe(true);
+    expect(operators(db.plan(query).root)).not.toContain('IndexScan');
+  });
+});
+
+describe('Unique indexes', () => {
+  const user = (id: number, email: string): GraphNode => ({ id, type: 'user', properties: { email }, edges: [] });
+
+  it('refuses writes that duplicate a key and keeps the index consistent', () => {
+    const db = new GraphMemDB({ indexes: [{ type: 'user', fields: ['email'], unique: true }] });
+    db.addNode(user(1, 'a@example.com'));
+    db.addNode(user(2, 'b@example.com'));
+
+    expect(() => db.addNode(user(3, 'a@example.com'))).toThrow(
+      'Unique index user_email violated: user 3 has the same email as node 1'
+    );
+    expect(() => db.patchProperties(2, { email: 'a@example.com' })).toThrow(/user_email violated/);
+    expect(db.getNode(3)).toBeUndefined();
+    expect(db.getNode(2)!.properties.email).toBe('b@example.com');
+
+    const lookup = (email: string) =>
+      db.executeQuery(compiler.parse(`FETCH user\nWHERE { email: ${email} }`)).map(node => node.id);
+    expect(lookup('a@example.com')).toEqual([1]);
+    expect(lookup('b@example.com')).toEqual([2]);
+
+    // Rewriting a node's own key is not a conflict; a freed key can be taken
+    db.patchProperties(1, { email: 'a@example.com', name: 'Alice' });
+    db.patchProperties(2, { email: 'c@example.com' });
+    db.addNode(user(3, 'b@example.com'));
+    expect(lookup('b@example.com')).toEqual([3]);
+  });
+
+  it('cannot be created over duplicate keys', () => {
+    const db = new GraphMemDB();
+    db.addNode(user(1, 'a@example.com'));
+    db.addNode(user(2, 'a@example.com'));
+
+    expect(() => db.createIndex({ type: 'user', fields: ['email'], unique: true })).toThrow(
+      'Cannot create unique index user_email: user 1 and 2 share email'
+    );
+    expect(db.getIndexes()).toEqual([]);
+  });
+});
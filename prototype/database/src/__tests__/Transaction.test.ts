@@ -0,0 +1,113 @@
+import { GraphNode } from '@aiws/shared';
+import { AIQCompiler } from '../AIQCompiler';
+import { GraphMemDB } from '../GraphMemDB';
+import { TransactionConflictError } from '../Transaction';
+
+const compiler = new AIQCompiler();
+
+const user = (id: number, email: string): GraphNode => ({ id, type: 'user', properties: { email }, edges: [] });
+
+function seed(db: GraphMemDB): void {
+  db.addNode(user(1, 'alice@example.com'));
+  db.addNode(user(2, 'bob@example.com'));
+  db.addNode({ id: 201, type: 'product', properties: { price: 300 }, edges: [] });
+  db.addNode({ id: 202, type: 'product', properties: { price: 40 }, edges: [] });
+}
+
+describe('Transactions', () => {
+  let db: GraphMemDB;
+
+  beforeEach(() => {
+    db = new GraphMemDB({ indexes: [{ type: 'user', fields: ['email'], unique: true }] });
+    seed(db);
+  });
+
+  it('read a snapshot and stage writes until commit', () => {
+    const transaction = db.beginTransaction();
+    transaction.patchProperties(201, { price: 320 });
+    db.patchProperties(202, { price: 45 });
+
+    expect(transaction.getNode(202)!.properties.price).toBe(40);
+    expect(db.getNode(201)!.properties.price).toBe(300);
+
+    transaction.commit();
+    expect(db.getNode(201)!.properties.price).toBe(320);
+    expect(transaction.getStatus()).toBe('committed');
+  });
+
+  it('let the first committer win', () => {
+    const first = db.beginTransaction();
+    const second = db.beginTransaction();
+    first.patchProperties(201, { price: 1000 });
+    second.patchProperties(201, { price: 900 });
+    second.patchProperties(202, { price: 50 });
+
+    first.commit();
+    expect(() => second.commit()).toThrow(TransactionConflictError);
+    expect(second.getStatus()).toBe('rolledBack');
+    expect(db.getNode(201)!.properties.price).toBe(1000);
+    expect(db.getNode(202)!.properties.price).toBe(40);
+
+    // A transaction that began after the commit sees it and does not conflict
+    db.transaction(transaction => transaction.patchProperties(201, { price: 900 }));
+    expect(db.getNode(201)!.properties.price).toBe(900);
+  });
+
+  it('undo every write of a commit that fails part way', () => {
+    const historyBefore = db.getHistory(1);
+    const transaction = db.beginTransaction();
+    transaction.patchProperties(1, { email: 'alice@example.org' });
+    transaction.addNode(user(3, 'carol@example.com'));
+    transaction.patchProperties(2, { email: 'carol@example.com' });
+
+    expect(() => transaction.commit()).toThrow('Unique index user_email violated');
+    expect(transaction.getStatus()).toBe('rolledBack');
+    expect(db.getNode(1)!.properties.email).toBe('alice@example.com');
+    expect(db.getNode(3)).toBeUndefined();
+    expect(db.getHistory(1)).toEqual(historyBefore);
+
+    // The index holds the committed keys only
+    const lookup = (email: string) =>
+      db.executeQuery(compiler.parse(`FETCH user\nWHERE { email: ${email} }`)).map(node => node.id);
+    expect(lookup('alice@example.com')).toEqual([1]);
+    expect(lookup('alice@example.org')).toEqual([]);
+    expect(lookup('carol@example.com')).toEqual([]);
+    db.addNode(user(4, 'alice@example.org'));
+  });
+
+  it('do not conflict with a commit that was undone', () => {
+    const open = db.beginTransaction();
+    const failing = db.beginTransaction();
+    failing.patchProperties(201, { price: 1 });
+    failing.patchProperties(2, { email: 'alice@example.com' });
+    expect(() => failing.commit()).toThrow('Unique index user_email violated');
+
+    open.patchProperties(201, { price: 310 });
+    open.commit();
+    expect(db.getNode(201)!.properties.price).toBe(310);
+  });
+
+  it('roll back when the function throws', () => {
+    expect(() =>
+      db.transaction(transaction => {
+        transaction.removeNode(201);
+        throw new Error('boom');
+      })
+    ).toThrow('boom');
+    expect(db.getNode(201)).toBeDefined();
+  });
+
+  it('run AIQ blocks all or nothing', () => {
+    const [committed] = db.executeQuery(
+      compiler.parse('BEGIN\nUPDATE product {\n  WHERE {\n    id: 202\n  }\n  SET {\n    price: 42\n  }\n}\nCOMMIT')
+    );
+    expect(committed).toMatchObject({ operation: 'TRANSACTION', committed: true });
+    expect(db.getNode(202)!.properties.price).toBe(42);
+
+    const [rolledBack] = db.executeQuery(
+      compiler.parse('BEGIN\nDELETE product {\n  WHERE {\n    id: 202\n  }\n}\nROLLBACK')
+    );
+    expect(rolledBack).toMatchObject({ operation: 'TRANSACTION', committed: false });
+    expect(db.getNode(202)).toBeDefined();
+  });
+});
@@ -0,0 +1,68 @@
+import { performance } from 'perf_hooks';
+import { GraphMemDB } from '../GraphMemDB';
+import { VectorMetric } from '../VectorIndex';
+
+const DIMENSIONS = 32;
+const NODES = 800;
+const QUERIES = 50;
+const K = 10;
+const MIN_RECALL = 0.9;
+/** Upper bound on the mean time per query, in milliseconds */
+const MAX_QUERY_MS = 25;
+
+/** Deterministic PRNG (mulberry32), so failures reproduce */
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomVector(next: () => number): number[] {
+  return Array.from({ length: DIMENSIONS }, () => next() * 2 - 1);
+}
+
+const topIds = (db: GraphMemDB, query: number[], type: string, exact: boolean) =>
+  db.vectorSearch(query, type, K, -Infinity, { exact }).map(node => node.id);
+
+describe('HNSW vector index', () => {
+  it.each<VectorMetric>(['cosine', 'dot', 'l2'])(
+    'keeps recall@10 against exact search with %s distance',
+    metric => {
+      const next = random(7);
+      const db = new GraphMemDB({ vectorIndex: { metric } });
+      const addItem = (id: string) =>
+        db.addNode({ id, type: 'item', properties: {}, edges: [], embedding: randomVector(next) });
+
+      for (let i = 0; i < NODES; i++) addItem(`item-${i}`);
+      // Holes in the graph: removed nodes, some re-inserted with new vectors
+      for (let i = 0; i < NODES; i += 4) db.removeNode(`item-${i}`);
+      for (let i = 0; i < NODES; i += 8) addItem(`item-${i}`);
+
+      const queries = Array.from({ length: QUERIES }, () => randomVector(next));
+      const timings = { exact: 0, hnsw: 0 };
+      let found = 0;
+
+      for (const query of queries) {
+        let start = performance.now();
+        const expected = topIds(db, query, 'item', true);
+        timings.exact += performance.now() - start;
+
+        start = performance.now();
+        const actual = topIds(db, query, 'item', false);
+        timings.hnsw += performance.now() - start;
+
+        expect(expected).toHaveLength(K);
+        found += actual.filter(id => expected.includes(id)).length;
+      }
+
+      expect(found / (QUERIES * K)).toBeGreaterThanOrEqual(MIN_RECALL);
+      // Both paths take about a millisecond; the bound leaves room for busy CI machines
+      expect(timings.hnsw / QUERIES).toBeLessThan(MAX_QUERY_MS);
+      expect(timings.exact / QUERIES).toBeLessThan(MAX_QUERY_MS);
+      db.close();
+    }
+  );
+});
@@ -1,2 +1,58 @@
-export { GraphMemDB } from './GraphMemDB';
+export {
+  GraphMemDB,
+  GraphMemDBOptions,
+  EdgePolicy,
+  VectorSearchOptions,
+  ScoredNode
+} from './GraphMemDB';
 export { AIQCompiler } from './AIQCompiler';
+export {
+  QueryPlanner,
+  QueryPlan,
+  PlanNode,
+  PlanOperator,
+  PlannerStatistics,
+  formatPlan
+} from './QueryPlanner';
+export { SecondaryIndex, IndexRange, indexName } from './SecondaryIndex';
+export { QueryCache, QueryCacheOptions, CacheDependencies, CacheChange } from './QueryCache';
+export { Transaction, TransactionStore, TransactionConflictError } from './Transaction';
+export { LiveQuery, LiveQueryStore, rowKey } from './LiveQuery';
+export { Page, PageCursor, encodeCursor, decodeCursor, compareRows } from './Cursor';
+export { SchemaError, validateNode, validateQuery, matchesType } from './Schema';
+export { AIQParser } from './AIQParser';
+export { AIQLexer, AIQSyntaxError, Token, TokenType } from './AIQLexer';
+export * from './AIQAst';
+export { matchesConditions, conditionFields, sameValue } from './Conditions';
+export { StorageEngine, WALRecord, Catalog } from './StorageEngine';
+export { NodeSerializer } from './NodeSerializer';
+export {
+  GraphAlgorithms,
+  AlgorithmOptions,
+  PageRankOptions,
+  ShortestPathResult,
+  RankedNode,
+  DegreeResult
+} from './GraphAlgorithms';
+
+export {
+  HNSWIndex,
+  VectorIndexOptions,
+  VectorMetric,
+  VectorMatch,
+  vectorDistance,
+  distanceToSimilarity
+} from './VectorIndex';
+export {
+  EmbeddingProvider,
+  HashedEmbeddingProvider,
+  HashedEmbeddingOptions
+} from './EmbeddingProvider';
+export {
+  FullTextIndex,
+  TextIndexOptions,
+  TextSearchOptions,
+  TextMatch,
+  tokenize,
+  stem
+} from './TextIndex';
@@ -1,10 +1,46 @@
-import { VisualCommand, ElementContext, ElementInfo } from '@aiws/shared';
+import { VisualCommand, ElementContext, ElementInfo, SessionInfo, LiveQueryDiff } from '@aiws/shared';
+
+type LiveView = 'product' | 'user';
+
+// The shape renderProducts / renderUsers bind to; live rows are keyed by id
+const PRODUCT_FIELDS = 'RETURN { id, title, price, category }';
+const USER_FIELDS = 'RETURN { id, name, email, status, orders: { total } }';
+
+const PRODUCTS_QUERY = `
+  @QUERY get_products
+  @INTENT "Get all published products"
+
+  FETCH product {
+    WHERE {
+      status: published
+    }
+    ${PRODUCT_FIELDS}
+  }
+`;
+
+const USERS_QUERY = `
+  @QUERY get_users
+  @INTENT "Get active users"
+
+  FETCH user {
+    WHERE {
+      status: active
+    }
+    ${USER_FIELDS}
+  }
+`;
 
 class AiwsClient {
   private ws: WebSocket | null = null;
   private selectedElement: HTMLElement | null = null;
   private commandCount = 0;
   private readonly serverUrl = 'ws://localhost:3000';
+  private sessionId: number | null = null;
+  /** Rows of the live product and user queries by node id, in result order */
+  private liveRows = new Map<LiveView, Map<string, any>>();
+  private liveQueryViews = new Map<number, LiveView>();
+  /** Views showing search results instead of their live query */
+  private searching = new Set<LiveView>();
 
   constructor() {
     this.connectWebSocket();
@@ -17,16 +53,24 @@ class AiwsClient {
 
     this.ws.onopen = () => {
       console.log('✓ Connected to AIWS server');
-      this.addMessage('ai', '✓ Connected to AIWS server');
+      this.authenticate();
     };
 
     this.ws.onmessage = (event) => {
       const data = JSON.parse(event.data);
 
-      if (data.type === 'response') {
+      if (data.type === 'session') {
+        this.handleSession(data);
+      } else if (data.type === 'response') {
         this.handleResponse(data.responses);
       } else if (data.type === 'update') {
         this.handleUpdate(data.changes);
+      } else if (data.type === 'live_query') {
+        this.handleLiveQuery(data.id, data.requestId, data.result);
+      } else if (data.type === 'live_diff') {
+        this.handleLiveDiff(data);
+      } else if (data.type === 'error') {
+        this.handleError(data.message);
       }
     };
 
@@ -37,11 +81,115 @@ class AiwsClient {
 
     this.ws.onclose = () => {
       console.log('Disconnected from server');
+      this.sessionId = null;
       this.addMessage('ai', '⚠️ Disconnected from server. Reconnecting...');
       setTimeout(() => this.connectWebSocket(), 3000);
     };
   }
 
+  private authenticate() {
+    // Resume the previous session if the server still has it
+    const stored = Number(localStorage.getItem('aiws-session')) || undefined;
+
+    this.ws?.send(JSON.stringify({
+      type: 'auth',
+      token: this.accessToken(),
+      sessionId: stored
+    }));
+  }
+
+  /**
+   * Access token (one of the server's AIWS_TOKENS), asked for once and kept
+   * in localStorage
+   */
+  private accessToken(): string {
+    let token = localStorage.getItem('aiws-token');
+    if (!token) {
+      token = window.prompt('AIWS access token') || '';
+      if (token) localStorage.setItem('aiws-token', token);
+    }
+    return token;
+  }
+
+  private handleSession(info: SessionInfo) {
+    this.sessionId = info.sessionId;
+    localStorage.setItem('aiws-session', String(info.sessionId));
+
+    if (info.resumed) {
+      this.addMessage('ai', '✓ Reconnected, session resumed');
+      this.restoreSelection(info.state.selectedXPath);
+    } else {
+      this.addMessage('ai', '✓ Connected to AIWS server');
+    }
+
+    // Live queries belong to the connection, so every (re)connect subscribes again
+    this.liveQueryViews.clear();
+    this.subscribeLive('product', PRODUCTS_QUERY);
+    this.subscribeLive('user', USERS_QUERY);
+  }
+
+  private subscribeLive(view: LiveView, query: string) {
+    this.ws?.send(JSON.stringify({
+      type: 'subscribe_query',
+      requestId: view,
+      query
+    }));
+  }
+
+  private handleLiveQuery(id: number, view: LiveView, result: any[]) {
+    this.liveQueryViews.set(id, view);
+    this.liveRows.set(view, new Map(result.map(row => [String(row.id), row])));
+    this.renderLive(view);
+  }
+
+  private handleLiveDiff(diff: LiveQueryDiff) {
+    const view = this.liveQueryViews.get(diff.id);
+    const rows = view && this.liveRows.get(view);
+    if (!view || !rows) return;
+
+    diff.removed.forEach(key => rows.delete(key));
+    [...diff.updated, ...diff.added].forEach(row => rows.set(String(row.id), row));
+
+    if (diff.order) {
+      this.liveRows.set(view, new Map(diff.order.map(key => [key, rows.get(key)])));
+    }
+    this.renderLive(view);
+  }
+
+  private renderLive(view: LiveView) {
+    const rows = this.liveRows.get(view);
+    if (!rows || this.searching.has(view)) return;
+
+    const documents = Array.from(rows.values());
+    view === 'user' ? this.renderUsers(documents) : this.renderProducts(documents);
+  }
+
+  private handleError(message: string) {
+    this.addMessage('ai', `❌ ${message}`);
+
+    if (/invalid token/i.test(message)) {
+      // Ask again rather than retrying a rejected token
+      localStorage.removeItem('aiws-token');
+      if (this.accessToken()) this.authenticate();
+      return;
+    }
+
+    if (/session|authenticated/i.test(message)) {
+      this.sessionId = null;
+      localStorage.removeItem('aiws-session');
+      this.authenticate();
+    }
+  }
+
+  private restoreSelection(xpath?: string) {
+    if (!xpath || this.selectedElement) return;
+
+    const result = document.evaluate(xpath, document, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null);
+    if (result.singleNodeValue instanceof HTMLElement) {
+      this.selectElement(result.singleNodeValue);
+    }
+  }
+
   private setupEventListeners() {
     // Element selection
     document.addEventListener('click', (e) => {
@@ -81,6 +229,14 @@ class AiwsClient {
       }
     });
 
+    // Search bars added by the Design Agent query the full-text index
+    document.addEventListener('input', (e) => {
+      const target = e.target as HTMLInputElement;
+      if (target.classList.contains('aiws-search-input')) {
+        this.search(target.value, target.dataset.searchType || 'product');
+      }
+    });
+
     // Quick actions
     document.querySelectorAll('.quick-action').forEach(btn => {
       btn.addEventListener('click', (e) => {
@@ -147,7 +303,7 @@ class AiwsClient {
     };
 
     // Send to server
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN && this.sessionId !== null) {
       this.ws.send(JSON.stringify({
         type: 'command',
         command
@@ -318,26 +474,24 @@ class AiwsClient {
     }
   }
 
+  /**
+   * POST an AIQ query to /ai/query with the access token
+   */
+  private async runQuery(query: string): Promise<any> {
+    const response = await fetch('http://localhost:3000/ai/query', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.accessToken()}`
+      },
+      body: JSON.stringify({ query })
+    });
+    return response.json();
+  }
+
   private async loadProducts() {
     try {
-      const response = await fetch('http://localhost:3000/ai/query', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          query: `
-            @QUERY get_products
-            @INTENT "Get all published products"
-
-            FETCH product {
-              WHERE {
-                status: published
-              }
-            }
-          `
-        })
-      });
-
-      const data = await response.json();
+      const data = await this.runQuery(PRODUCTS_QUERY);
       if (data.success && data.result) {
         this.renderProducts(data.result);
       }
@@ -348,24 +502,7 @@ class AiwsClient {
 
   private async loadUsers() {
     try {
-      const response = await fetch('http://localhost:3000/ai/query', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          query: `
-            @QUERY get_users
-            @INTENT "Get active users"
-
-            FETCH user {
-              WHERE {
-                status: active
-              }
-            }
-          `
-        })
-      });
-
-      const data = await response.json();
+      const data = await this.runQuery(USERS_QUERY);
       if (data.success && data.result) {
         this.renderUsers(data.result);
       }
@@ -374,15 +511,46 @@ class AiwsClient {
     }
   }
 
+  private async search(text: string, type: string) {
+    const view: LiveView = type === 'user' ? 'user' : 'product';
+
+    if (!text.trim()) {
+      this.searching.delete(view);
+      if (this.liveRows.has(view)) {
+        this.renderLive(view);
+      } else {
+        view === 'user' ? this.loadUsers() : this.loadProducts();
+      }
+      return;
+    }
+    this.searching.add(view);
+
+    try {
+      // Search-as-you-type: the last term matches as a prefix
+      const query = `FETCH ${view} {
+        SEARCH ${JSON.stringify(text.trim() + '*')}
+        LIMIT 20
+        ${view === 'user' ? USER_FIELDS : PRODUCT_FIELDS}
+      }`;
+      const data = await this.runQuery(query);
+      // The search may have been cleared while the request was in flight
+      if (data.success && data.result && this.searching.has(view)) {
+        view === 'user' ? this.renderUsers(data.result) : this.renderProducts(data.result);
+      }
+    } catch (error) {
+      console.error('Search failed:', error);
+    }
+  }
+
   private renderProducts(products: any[]) {
     const grid = document.getElementById('product-grid');
     if (!grid) return;
 
     grid.innerHTML = products.map(p => `
       <div class="product-card" data-product-id="${p.id}">
-        <div class="product-title">${p.properties.title}</div>
-        <div class="product-price">$${p.properties.price}</div>
-        <div class="product-category">${p.properties.category}</div>
+        <div class="product-title">${p.title}</div>
+        <div class="product-price">$${p.price}</div>
+        <div class="product-category">${p.category}</div>
         <button class="btn btn-primary">Add to Cart</button>
       </div>
     `).join('');
@@ -394,10 +562,10 @@ class AiwsClient {
 
     list.innerHTML = users.map(u => `
       <div class="product-card" data-user-id="${u.id}" style="margin-bottom: 10px;">
-        <div class="product-title">${u.properties.name}</div>
-        <div style="color: #666; font-size: 0.9rem;">${u.properties.email}</div>
+        <div class="product-title">${u.name}</div>
+        <div style="color: #666; font-size: 0.9rem;">${u.email}</div>
         <div style="color: #10b981; font-size: 0.85rem; margin-top: 5px;">
-          Status: ${u.properties.status}
+          Status: ${u.status} · ${(u.orders ?? []).length} order(s)
         </div>
       </div>
     `).join('');
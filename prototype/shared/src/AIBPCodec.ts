@@ -0,0 +1,146 @@
+import { AIBPMessage, AIBPFlag } from './types';
+
+export const AIBP_MAGIC = 0x41494231; // "AIB1"
+export const AIBP_HEADER_SIZE = 19;
+export const AIBP_CHECKSUM_SIZE = 4;
+
+const RESPONSE_BIT = 0x80;
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let c = i;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[i] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * AIBP Codec - Frames and unframes AI Binary Protocol messages
+ *
+ * Frame layout (big-endian):
+ *   magic: uint32 | op: uint8 | session: uint32 | request_id: uint32
+ *   flags: uint16 | payload_length: uint32 | payload | checksum: uint32
+ *
+ * The checksum is a CRC32 over the header and payload.
+ */
+export class AIBPCodec {
+  /**
+   * Encode a message into a binary frame
+   */
+  encode(message: {
+    op: number;
+    session?: number;
+    requestId: number;
+    flags?: number;
+    payload?: Buffer;
+  }): Buffer {
+    const payload = message.payload || Buffer.alloc(0);
+    const frame = Buffer.alloc(AIBP_HEADER_SIZE + payload.length + AIBP_CHECKSUM_SIZE);
+
+    frame.writeUInt32BE(AIBP_MAGIC, 0);
+    frame.writeUInt8(message.op, 4);
+    frame.writeUInt32BE(message.session || 0, 5);
+    frame.writeUInt32BE(message.requestId, 9);
+    frame.writeUInt16BE(message.flags || AIBPFlag.NONE, 13);
+    frame.writeUInt32BE(payload.length, 15);
+    payload.copy(frame, AIBP_HEADER_SIZE);
+
+    const checksumOffset = AIBP_HEADER_SIZE + payload.length;
+    frame.writeUInt32BE(this.checksum(frame.subarray(0, checksumOffset)), checksumOffset);
+
+    return frame;
+  }
+
+  /**
+   * Decode a binary frame, verifying magic, length and checksum
+   */
+  decode(frame: Buffer): AIBPMessage {
+    if (frame.length < AIBP_HEADER_SIZE + AIBP_CHECKSUM_SIZE) {
+      throw new Error(`AIBP frame too short: ${frame.length} bytes`);
+    }
+
+    const magic = frame.readUInt32BE(0);
+    if (magic !== AIBP_MAGIC) {
+      throw new Error(`Invalid AIBP magic: 0x${magic.toString(16)}`);
+    }
+
+    const payloadLength = frame.readUInt32BE(15);
+    const checksumOffset = AIBP_HEADER_SIZE + payloadLength;
+    if (frame.length !== checksumOffset + AIBP_CHECKSUM_SIZE) {
+      throw new Error(
+        `AIBP payload length mismatch: header says ${payloadLength}, frame has ${
+          frame.length - AIBP_HEADER_SIZE - AIBP_CHECKSUM_SIZE
+        }`
+      );
+    }
+
+    const checksum = frame.readUInt32BE(checksumOffset);
+    const expected = this.checksum(frame.subarray(0, checksumOffset));
+    if (checksum !== expected) {
+      throw new Error(
+        `AIBP checksum mismatch: expected 0x${expected.toString(16)}, got 0x${checksum.toString(16)}`
+      );
+    }
+
+    return {
+      magic,
+      op: frame.readUInt8(4),
+      session: frame.readUInt32BE(5),
+      requestId: frame.readUInt32BE(9),
+      flags: frame.readUInt16BE(13),
+      payloadLength,
+      payload: Buffer.from(frame.subarray(AIBP_HEADER_SIZE, checksumOffset)),
+      checksum
+    };
+  }
+
+  /**
+   * Encode a JSON payload (sets the JSON_PAYLOAD flag)
+   */
+  encodeJSON(message: { op: number; session?: number; requestId: number; data: any }): Buffer {
+    return this.encode({
+      op: message.op,
+      session: message.session,
+      requestId: message.requestId,
+      flags: AIBPFlag.JSON_PAYLOAD,
+      payload: Buffer.from(JSON.stringify(message.data), 'utf8')
+    });
+  }
+
+  /**
+   * Read a message payload, parsing JSON when flagged
+   */
+  readPayload(message: AIBPMessage): any {
+    const text = message.payload.toString('utf8');
+    if (message.flags & AIBPFlag.JSON_PAYLOAD) {
+      return text ? JSON.parse(text) : undefined;
+    }
+    return text;
+  }
+
+  /**
+   * Response opcode for a request opcode (e.g. CREATE_USER -> CREATE_USER_RESPONSE)
+   */
+  responseOp(op: number): number {
+    return (op | RESPONSE_BIT) & 0xff;
+  }
+
+  isResponse(op: number): boolean {
+    return (op & RESPONSE_BIT) !== 0;
+  }
+
+  /**
+   * CRC32 (IEEE 802.3)
+   */
+  checksum(data: Buffer): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+      crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+}
@@ -48,15 +48,250 @@ export interface AgentResponse {
 export interface AIQQuery {
   name: string;
   intent: string;
-  operation: 'FETCH' | 'INSERT' | 'UPDATE' | 'DELETE' | 'GRAPH_TRAVERSE';
+  operation:
+    | 'FETCH'
+    | 'INSERT'
+    | 'UPDATE'
+    | 'DELETE'
+    | 'GRAPH_TRAVERSE'
+    | 'MATCH'
+    | 'CALL'
+    | 'CREATE_INDEX'
+    | 'DROP_INDEX'
+    | 'TRANSACTION';
   target: string;
-  where?: Record<string, any>;
+  where?: Conditions;
   compute?: Record<string, ComputeExpression>;
-  filter?: Record<string, any>;
+  groupBy?: string[];
+  filter?: Conditions;
   sort?: SortExpression;
   limit?: number;
+  /** Cursor of the row to continue after (AFTER clause): rows past it in SORT BY order, ties by id */
+  after?: string;
+  /** Shape of the result rows (RETURN clause) */
+  projection?: Projection;
+  values?: Record<string, any>;
+  set?: Record<string, any>;
+  link?: GraphEdge[];
+  unlink?: GraphEdge[];
+  traversal?: TraversalSpec;
+  pattern?: PathPattern;
+  algorithm?: AlgorithmCall;
+  similar?: SimilaritySpec;
+  search?: TextSearchSpec;
+  /** CREATE_INDEX definition (DROP_INDEX names the index in target) */
+  index?: IndexDefinition;
+  /** Milliseconds to cache the result (CACHE clause); 0 bypasses the cache */
+  cacheTtl?: number;
+  /** Read the graph as it was at this time, in epoch milliseconds (AS OF clause) */
+  asOf?: number;
+  /** TRANSACTION (BEGIN ... COMMIT) statements, run in order */
+  statements?: AIQQuery[];
+  /** BEGIN ... ROLLBACK: run the statements, then discard their writes */
+  rollback?: boolean;
 }
 
+/**
+ * WHERE / FILTER conditions. Each key is ANDed: a field maps to a value
+ * (equality) or to operators ($gt, $gte, $lt, $lte, $ne, $in, $like,
+ * $contains, $exists); $and / $or take lists of conditions and $not one.
+ * Dates compare by time, including against ISO date strings.
+ */
+export type Conditions = Record<string, any>;
+
+/**
+ * Full-text clause (SEARCH "terms"); terms ending in * match as prefixes
+ */
+export interface TextSearchSpec {
+  query: string;
+  /** Match the last term as a prefix */
+  prefix?: boolean;
+}
+
+/**
+ * Vector similarity clause (SIMILAR TO <node> / NEAR [vector])
+ */
+export interface SimilaritySpec {
+  /** Node whose embedding is the query vector ("type:id" or id) */
+  to?: string | number;
+  /** Text embedded by the database's embedding provider */
+  text?: string;
+  /** Literal query vector */
+  vector?: number[];
+  /** Minimum similarity score */
+  threshold?: number;
+}
+
+export type ScoredGraphNode = GraphNode & { similarity: number };
+
+export type SearchResultNode = GraphNode & { score: number };
+
+export interface AlgorithmCall {
+  name: 'SHORTEST_PATH' | 'PAGERANK' | 'COMPONENTS' | 'DEGREE';
+  from?: string | number;
+  to?: string | number;
+  relationships?: string[];
+  direction?: TraversalDirection;
+}
+
+export type TraversalDirection = 'out' | 'in' | 'both';
+
+export interface TraversalSpec {
+  start: string | number;
+  relationships: string[];
+  direction: TraversalDirection;
+  maxDepth?: number;
+}
+
+export interface PatternNode {
+  alias: string;
+  type?: string;
+  where?: Conditions;
+  filter?: Conditions;
+}
+
+export interface PatternHop {
+  relationship: string;
+  direction: TraversalDirection;
+}
+
+/**
+ * Ordered hop sequence: nodes[i] -hops[i]-> nodes[i + 1]
+ */
+export interface PathPattern {
+  nodes: PatternNode[];
+  hops: PatternHop[];
+}
+
+/**
+ * RETURN projection: output key -> field of the row ("name", "id",
+ * "u.name"), or a nested projection of what a field holds. On nodes, a
+ * relationship or node type name ("HAS_ORDER", "orders") gives the related
+ * nodes, projected into an array.
+ */
+export type Projection = Record<string, string | NestedProjection>;
+
+export interface NestedProjection {
+  from: string;
+  fields: Projection;
+}
+
+export interface AIQWriteResult {
+  operation: 'INSERT' | 'UPDATE' | 'DELETE';
+  affected: number;
+  ids: (string | number)[];
+}
+
+/**
+ * Secondary index over properties of one node type. Indexes are sorted, so
+ * they serve equality, range and SORT BY; a unique index rejects a second
+ * node with the same values. The name defaults to type_field1_field2.
+ */
+export interface IndexDefinition {
+  name?: string;
+  type: string;
+  fields: string[];
+  unique?: boolean;
+}
+
+export type PropertyType = 'string' | 'number' | 'boolean' | 'date' | 'array' | 'object' | 'any';
+
+export interface PropertySchema {
+  /** Dates may be Date values or ISO date strings */
+  type: PropertyType;
+  required?: boolean;
+  /** Allowed values */
+  enum?: any[];
+}
+
+/**
+ * Optional schema of a node type, enforced when nodes of the type are written
+ */
+export interface NodeSchema {
+  type: string;
+  properties: Record<string, PropertySchema>;
+  /** Reject properties the schema does not declare (default true) */
+  strict?: boolean;
+  /** Allowed outgoing relationships -> target node types (empty: any type); any edge when omitted */
+  edges?: Record<string, string[]>;
+}
+
+export interface AIQTransactionResult {
+  operation: 'TRANSACTION';
+  committed: boolean;
+  /** Result of each statement */
+  results: any[][];
+}
+
+/**
+ * A committed write to one node (change data capture): before is null for
+ * an insert, after is null for a delete
+ */
+export interface ChangeEvent {
+  /** Version of the write (see getNodeVersion) */
+  seq: number;
+  op: 'insert' | 'update' | 'delete';
+  id: string | number;
+  type: string;
+  before: GraphNode | null;
+  after: GraphNode | null;
+  timestamp: number;
+  origin?: ChangeOrigin;
+}
+
+/**
+ * Who made a write: the agent, the natural language command it was
+ * handling and the AIQ query (its @QUERY name) that ran, where known
+ */
+export interface ChangeOrigin {
+  agent?: string;
+  command?: string;
+  query?: string;
+}
+
+/**
+ * One entry of a node's history: the state a write left it in
+ */
+export interface NodeVersion {
+  /** Version of the write (see getNodeVersion) */
+  version: number;
+  timestamp: number;
+  op: 'insert' | 'update' | 'delete';
+  /** The node after the write (without its embedding), null once deleted */
+  node: GraphNode | null;
+  /** Properties that changed, plus '$edges' / '$embedding', for updates */
+  changed?: string[];
+  origin?: ChangeOrigin;
+}
+
+/**
+ * How the result of a live query changed. Rows are keyed by node id (by
+ * bound ids for MATCH rows, group values for GROUP BY rows).
+ */
+export interface LiveQueryDiff {
+  /** Live query id */
+  id: number;
+  /** Version of the last write the diff reflects */
+  seq: number;
+  added: any[];
+  updated: any[];
+  /** Keys of the rows that left the result */
+  removed: string[];
+  /** Keys of all rows in result order, when it is not the previous order plus the added rows */
+  order?: string[];
+}
+
+export interface AIQIndexResult {
+  operation: 'CREATE_INDEX' | 'DROP_INDEX';
+  name: string;
+  /** Nodes indexed (CREATE_INDEX) or indexes dropped (DROP_INDEX) */
+  affected: number;
+}
+
+/**
+ * Aggregate over a property ("total") or over the neighbours named by a
+ * relationship or node type ("orders", "orders.total", "HAS_ORDER.total")
+ */
 export interface ComputeExpression {
   function: 'COUNT' | 'SUM' | 'AVG' | 'MIN' | 'MAX';
   field?: string;
@@ -82,7 +317,7 @@ export interface GraphEdge {
 }
 
 export interface AIBPMessage {
-  magic: number; // 0xAIB1
+  magic: number; // AIBP_MAGIC ("AIB1")
   op: number;
   session: number;
   requestId: number;
@@ -114,10 +349,31 @@ export enum AIBPOpCode {
   WS_UNSUBSCRIBE = 0x31,
   WS_BROADCAST = 0x32,
 
-  // Responses
+  // Session operations
+  AUTHENTICATE = 0x40,
+
+  // Responses (request opcode | 0x80, see AIBPCodec.responseOp)
   SUCCESS = 0x80,
-  ERROR = 0x81,
   CREATE_USER_RESPONSE = 0x81,
+  ERROR = 0xff,
+}
+
+export enum AIBPFlag {
+  NONE = 0,
+  COMPRESSED = 0x01, // Reserved, not supported by the prototype
+  JSON_PAYLOAD = 0x02,
+}
+
+export interface SessionState {
+  page?: string;
+  selectedXPath?: string;
+  subscriptions: string[];
+}
+
+export interface SessionInfo {
+  sessionId: number;
+  resumed: boolean;
+  state: SessionState;
 }
 
 export interface ComponentDefinition {